@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "ScanSummary" (
+    "id" TEXT NOT NULL,
+    "scanId" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "pointsTotal" INTEGER NOT NULL,
+    "pointsFound" INTEGER NOT NULL,
+    "pointsTop3" INTEGER NOT NULL,
+    "solv" DECIMAL(5,2) NOT NULL,
+    "atrp" DECIMAL(5,2) NOT NULL,
+    "arp" DECIMAL(5,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScanSummary_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScanSummary_businessId_idx" ON "ScanSummary"("businessId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScanSummary_scanId_businessId_key" ON "ScanSummary"("scanId", "businessId");
+
+-- AddForeignKey
+ALTER TABLE "ScanSummary" ADD CONSTRAINT "ScanSummary_scanId_fkey" FOREIGN KEY ("scanId") REFERENCES "Scan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScanSummary" ADD CONSTRAINT "ScanSummary_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "Business"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
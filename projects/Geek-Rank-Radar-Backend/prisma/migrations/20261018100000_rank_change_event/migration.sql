@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "RankChangeEvent" (
+    "id" TEXT NOT NULL,
+    "businessId" TEXT NOT NULL,
+    "scanId" TEXT NOT NULL,
+    "previousScanId" TEXT NOT NULL,
+    "serviceAreaId" TEXT NOT NULL,
+    "keyword" TEXT NOT NULL,
+    "searchEngine" TEXT NOT NULL,
+    "changeType" TEXT NOT NULL,
+    "previousRank" DECIMAL(5,2) NOT NULL,
+    "currentRank" DECIMAL(5,2) NOT NULL,
+    "acknowledgedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RankChangeEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RankChangeEvent_businessId_createdAt_idx" ON "RankChangeEvent"("businessId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "RankChangeEvent_acknowledgedAt_idx" ON "RankChangeEvent"("acknowledgedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RankChangeEvent_scanId_businessId_key" ON "RankChangeEvent"("scanId", "businessId");
+
+-- AddForeignKey
+ALTER TABLE "RankChangeEvent" ADD CONSTRAINT "RankChangeEvent_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "Business"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RankChangeEvent" ADD CONSTRAINT "RankChangeEvent_scanId_fkey" FOREIGN KEY ("scanId") REFERENCES "Scan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "EngineState" (
+    "engineId" TEXT NOT NULL,
+    "requestsThisHour" INTEGER NOT NULL DEFAULT 0,
+    "requestsToday" INTEGER NOT NULL DEFAULT 0,
+    "hourResetAt" TIMESTAMP(3) NOT NULL,
+    "dayResetAt" TIMESTAMP(3) NOT NULL,
+    "lastRequestAt" TIMESTAMP(3),
+    "blockedUntil" TIMESTAMP(3),
+    "errorCount" INTEGER NOT NULL DEFAULT 0,
+    "captchaCount" INTEGER NOT NULL DEFAULT 0,
+    "captchaWindowStart" TIMESTAMP(3),
+    "cookies" JSONB,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EngineState_pkey" PRIMARY KEY ("engineId")
+);
@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "ScanJob" (
+    "id" TEXT NOT NULL,
+    "scanId" TEXT NOT NULL,
+    "scanPointId" TEXT NOT NULL,
+    "engineId" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "gridRow" INTEGER NOT NULL,
+    "gridCol" INTEGER NOT NULL,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "lng" DOUBLE PRECISION NOT NULL,
+    "city" TEXT,
+    "state" TEXT,
+    "priority" INTEGER NOT NULL DEFAULT 1,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "availableAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "leasedBy" TEXT,
+    "leaseExpiresAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScanJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScanJob_scanPointId_key" ON "ScanJob"("scanPointId");
+
+-- CreateIndex
+CREATE INDEX "ScanJob_engineId_status_priority_idx" ON "ScanJob"("engineId", "status", "priority");
+
+-- CreateIndex
+CREATE INDEX "ScanJob_scanId_idx" ON "ScanJob"("scanId");
+
+-- AddForeignKey
+ALTER TABLE "ScanJob" ADD CONSTRAINT "ScanJob_scanId_fkey" FOREIGN KEY ("scanId") REFERENCES "Scan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScanJob" ADD CONSTRAINT "ScanJob_scanPointId_fkey" FOREIGN KEY ("scanPointId") REFERENCES "ScanPoint"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "ScanPoint" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "attemptHistory" JSONB,
+ADD COLUMN     "lastError" TEXT;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Scan" ADD COLUMN     "batchId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ScanBatch" (
+    "id" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'api',
+    "scheduleId" TEXT,
+    "serviceAreaIds" TEXT[],
+    "categoryIds" TEXT[],
+    "engineIds" TEXT[],
+    "gridSize" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'creating',
+    "errorMessage" TEXT,
+    "scansTotal" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ScanBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Scan_batchId_idx" ON "Scan"("batchId");
+
+-- CreateIndex
+CREATE INDEX "ScanBatch_createdAt_idx" ON "ScanBatch"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Scan" ADD CONSTRAINT "Scan_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "ScanBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScanBatch" ADD CONSTRAINT "ScanBatch_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "ScanSchedule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
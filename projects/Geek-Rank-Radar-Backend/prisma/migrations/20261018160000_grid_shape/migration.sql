@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Scan" ADD COLUMN     "gridShape" TEXT NOT NULL DEFAULT 'square';
+
+-- CreateTable
+CREATE TABLE "ExclusionZone" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'water',
+    "geometry" JSONB NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExclusionZone_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "ServiceArea" ADD COLUMN     "boundary" JSONB;
+
+-- AlterTable
+ALTER TABLE "Business" ADD COLUMN     "serviceAreaId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Business_serviceAreaId_idx" ON "Business"("serviceAreaId");
+
+-- AddForeignKey
+ALTER TABLE "Business" ADD CONSTRAINT "Business_serviceAreaId_fkey" FOREIGN KEY ("serviceAreaId") REFERENCES "ServiceArea"("id") ON DELETE SET NULL ON UPDATE CASCADE;
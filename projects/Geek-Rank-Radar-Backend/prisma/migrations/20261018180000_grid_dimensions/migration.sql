@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Scan" ADD COLUMN     "gridCols" INTEGER NOT NULL DEFAULT 7,
+ADD COLUMN     "gridRows" INTEGER NOT NULL DEFAULT 7,
+ADD COLUMN     "spacingMiles" DECIMAL(5,2);
+
+-- Existing scans are square
+UPDATE "Scan" SET "gridRows" = "gridSize", "gridCols" = "gridSize";
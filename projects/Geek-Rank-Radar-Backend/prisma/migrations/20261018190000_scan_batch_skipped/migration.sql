@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ScanBatch" ADD COLUMN     "skipped" JSONB;
@@ -0,0 +1,110 @@
+/**
+ * Rebuild the bundled national ZIP centroid dataset for OfflineGeocoder.
+ * Run with: npm run geocoder:fetch [-- path/to/US.zip or US.txt]
+ *
+ * Downloads the GeoNames US postal code export (or reads a local copy of
+ * US.zip, or the US.txt inside it), and writes data/us-zip-centroids.csv
+ * as zip,city,state,lat,lng. GeoNames data is licensed CC BY 4.0
+ * (https://www.geonames.org/) — the attribution is kept in the file's header.
+ */
+
+import axios from 'axios';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { inflateRawSync } from 'node:zlib';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const OUTPUT_PATH = join(__dirname, '..', 'data', 'us-zip-centroids.csv');
+
+const SOURCE_URL = 'https://download.geonames.org/export/zip/US.zip';
+const SOURCE_ENTRY = 'US.txt';
+
+/** Column positions in the GeoNames postal code export (tab-separated) */
+const COLUMN = { zip: 1, city: 2, state: 4, lat: 9, lng: 10 } as const;
+
+/**
+ * Pull one file out of a zip archive via its central directory.
+ * Handles the stored and deflate methods, which is all GeoNames uses.
+ */
+function extractEntry(archive: Buffer, name: string): Buffer {
+  const eocd = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (eocd < 0) throw new Error('Not a zip archive');
+
+  const entries = archive.readUInt16LE(eocd + 10);
+  let offset = archive.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entries; i++) {
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const entryName = archive.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    if (entryName === name) {
+      const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+      const data = archive.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflateRawSync(data);
+      throw new Error(`Unsupported compression method ${method} for ${name}`);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  throw new Error(`${name} not found in archive`);
+}
+
+function csvField(value: string): string {
+  return /[",]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+
+/** The export's US.txt, from a local .txt, a local .zip, or the download */
+async function loadExport(localPath: string | undefined): Promise<string> {
+  if (localPath) {
+    console.log(`Reading ${localPath}...`);
+    const content = readFileSync(localPath);
+    return (localPath.endsWith('.txt') ? content : extractEntry(content, SOURCE_ENTRY)).toString('utf-8');
+  }
+
+  console.log(`Downloading ${SOURCE_URL}...`);
+  const response = await axios.get<ArrayBuffer>(SOURCE_URL, { responseType: 'arraybuffer', timeout: 120_000 });
+  return extractEntry(Buffer.from(response.data), SOURCE_ENTRY).toString('utf-8');
+}
+
+async function main(): Promise<void> {
+  const rows = (await loadExport(process.argv[2])).split('\n');
+
+  const lines = [
+    '# US ZIP code centroids for offline geocoding — zip,city,state,lat,lng (WGS84)',
+    `# Generated by scripts/fetch-zip-centroids.ts on ${new Date().toISOString().slice(0, 10)} from the GeoNames US export (${SOURCE_URL})`,
+    '# Source: GeoNames (https://www.geonames.org/), licensed CC BY 4.0 (https://creativecommons.org/licenses/by/4.0/)',
+    'zip,city,state,lat,lng',
+  ];
+  let written = 0;
+
+  for (const row of rows) {
+    const columns = row.split('\t');
+    const zip = columns[COLUMN.zip]?.trim();
+    const city = columns[COLUMN.city]?.trim();
+    const state = columns[COLUMN.state]?.trim();
+    const lat = columns[COLUMN.lat]?.trim();
+    const lng = columns[COLUMN.lng]?.trim();
+    if (!zip || !/^\d{5}$/.test(zip) || !city || !state || !lat || !lng) continue;
+
+    lines.push([zip, city, state, lat, lng].map(csvField).join(','));
+    written++;
+  }
+
+  if (written === 0) throw new Error(`No ZIP rows found in ${SOURCE_ENTRY}`);
+
+  writeFileSync(OUTPUT_PATH, `${lines.join('\n')}\n`);
+  console.log(`Wrote ${written} ZIP centroids to ${OUTPUT_PATH}`);
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
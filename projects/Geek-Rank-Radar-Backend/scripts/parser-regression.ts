@@ -0,0 +1,219 @@
+/**
+ * Parser regression harness.
+ * Run with: npm run test:parsers            (diff against goldens)
+ *           npm run test:parsers -- --update (rewrite goldens)
+ *
+ * Runs every parser in src/services/parsers/ against the stored fixtures in
+ * scripts/parser-fixtures/<engineId>/ and diffs the SERPResult against the
+ * checked-in golden JSON at golden/<PARSER_VERSION>/<case>.json.
+ *
+ * Goldens are keyed by PARSER_VERSION so a selector recalibration is an
+ * explicit step: bump the version, review the diff against the previous
+ * version's golden, then --update. Exits 1 on any mismatch.
+ */
+
+import { readdirSync, readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { join, dirname, extname, basename } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { GeoPoint, SERPResult } from '../src/types/engine.types.js';
+import { GoogleSearchParser } from '../src/services/parsers/GoogleSearchParser.js';
+import { GoogleLocalParser } from '../src/services/parsers/GoogleLocalParser.js';
+import { GoogleMapsParser } from '../src/services/parsers/GoogleMapsParser.js';
+import { BingSearchParser, type BingSearchResponse } from '../src/services/parsers/BingSearchParser.js';
+import { BingLocalParser } from '../src/services/parsers/BingLocalParser.js';
+import { DuckDuckGoParser } from '../src/services/parsers/DuckDuckGoParser.js';
+import { logger } from '../src/config/logger.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = join(__dirname, 'parser-fixtures');
+
+// Fixed inputs so goldens only change when parser output changes
+const QUERY = 'pizza';
+const LOCATION: GeoPoint = { lat: 26.4615, lng: -80.0728 };
+const FIXED_TIMESTAMP = '2026-01-01T00:00:00.000Z';
+
+interface ParserTarget {
+  engineId: string;
+  version: string;
+  format: 'html' | 'json';
+  parse: (raw: string) => SERPResult;
+}
+
+const targets: ParserTarget[] = [
+  {
+    engineId: 'google_search',
+    version: GoogleSearchParser.PARSER_VERSION,
+    format: 'html',
+    parse: (raw) => new GoogleSearchParser().parse(raw, QUERY, LOCATION, 0),
+  },
+  {
+    engineId: 'google_local',
+    version: GoogleLocalParser.PARSER_VERSION,
+    format: 'html',
+    parse: (raw) => new GoogleLocalParser().parse(raw, QUERY, LOCATION, 0),
+  },
+  {
+    engineId: 'google_maps',
+    version: GoogleMapsParser.PARSER_VERSION,
+    format: 'html',
+    parse: (raw) => new GoogleMapsParser().parse(raw, QUERY, LOCATION, 0),
+  },
+  {
+    engineId: 'bing_api',
+    version: BingSearchParser.PARSER_VERSION,
+    format: 'json',
+    parse: (raw) => new BingSearchParser().parse(JSON.parse(raw) as BingSearchResponse, QUERY, LOCATION, 0),
+  },
+  {
+    engineId: 'bing_local',
+    version: BingLocalParser.PARSER_VERSION,
+    format: 'html',
+    parse: (raw) => new BingLocalParser().parse(raw, QUERY, LOCATION, 0),
+  },
+  {
+    engineId: 'duckduckgo',
+    version: DuckDuckGoParser.PARSER_VERSION,
+    format: 'html',
+    parse: (raw) => new DuckDuckGoParser().parse(raw, QUERY, LOCATION, 0),
+  },
+];
+
+/**
+ * Round-trip through JSON so the golden compares exactly what is
+ * stored and served (undefined fields dropped, Dates as strings).
+ */
+function normalize(result: SERPResult): unknown {
+  return JSON.parse(JSON.stringify({ ...result, rawHtml: undefined, timestamp: FIXED_TIMESTAMP })) as unknown;
+}
+
+/**
+ * Field-level diff: one line per path that differs, e.g.
+ *   businesses[0].rating: expected 4.6, got (missing)
+ */
+function diff(expected: unknown, actual: unknown, path: string, out: string[]): void {
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    if (expected.length !== actual.length) {
+      out.push(`${path}.length: expected ${expected.length}, got ${actual.length}`);
+    }
+    for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+      diff(expected[i], actual[i], `${path}[${i}]`, out);
+    }
+    return;
+  }
+
+  if (isObject(expected) && isObject(actual)) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const key of [...keys].sort()) {
+      diff(expected[key], actual[key], path ? `${path}.${key}` : key, out);
+    }
+    return;
+  }
+
+  if (expected !== actual) {
+    out.push(`${path}: expected ${format(expected)}, got ${format(actual)}`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function format(value: unknown): string {
+  if (value === undefined) return '(missing)';
+  const json = JSON.stringify(value);
+  return json.length > 80 ? `${json.slice(0, 77)}...` : json;
+}
+
+/**
+ * Most recent golden for a case from an older PARSER_VERSION,
+ * used to show what a version bump changed.
+ */
+function findPreviousGolden(goldenRoot: string, version: string, caseName: string): { version: string; path: string } | null {
+  if (!existsSync(goldenRoot)) return null;
+
+  const versions = readdirSync(goldenRoot)
+    .filter((v) => v < version && existsSync(join(goldenRoot, v, `${caseName}.json`)))
+    .sort();
+  const previous = versions.at(-1);
+
+  return previous ? { version: previous, path: join(goldenRoot, previous, `${caseName}.json`) } : null;
+}
+
+function run(update: boolean): number {
+  let failures = 0;
+  let cases = 0;
+
+  for (const target of targets) {
+    const fixtureDir = join(FIXTURES_DIR, target.engineId);
+    const goldenRoot = join(fixtureDir, 'golden');
+    const goldenDir = join(goldenRoot, target.version);
+
+    const fixtures = existsSync(fixtureDir)
+      ? readdirSync(fixtureDir).filter((f) => extname(f) === `.${target.format}`).sort()
+      : [];
+
+    if (fixtures.length === 0) {
+      console.log(`✗ ${target.engineId}: no .${target.format} fixtures in ${fixtureDir}`);
+      failures++;
+      continue;
+    }
+
+    for (const fixture of fixtures) {
+      cases++;
+      const caseName = basename(fixture, extname(fixture));
+      const label = `${target.engineId}/${caseName} @ ${target.version}`;
+      const goldenPath = join(goldenDir, `${caseName}.json`);
+
+      let actual: unknown;
+      try {
+        actual = normalize(target.parse(readFileSync(join(fixtureDir, fixture), 'utf-8')));
+      } catch (error: unknown) {
+        console.log(`✗ ${label}: parser threw — ${error instanceof Error ? error.message : String(error)}`);
+        failures++;
+        continue;
+      }
+
+      if (update) {
+        mkdirSync(goldenDir, { recursive: true });
+        writeFileSync(goldenPath, `${JSON.stringify(actual, null, 2)}\n`);
+        console.log(`✎ ${label}: golden written`);
+        continue;
+      }
+
+      if (!existsSync(goldenPath)) {
+        const previous = findPreviousGolden(goldenRoot, target.version, caseName);
+        if (previous) {
+          const changes: string[] = [];
+          diff(JSON.parse(readFileSync(previous.path, 'utf-8')) as unknown, actual, '', changes);
+          console.log(`✗ ${label}: no golden for this PARSER_VERSION — changes since ${previous.version}:`);
+          for (const line of changes) console.log(`    ${line}`);
+          console.log('  Review the changes, then run with --update');
+        } else {
+          console.log(`✗ ${label}: no golden — run with --update to create it`);
+        }
+        failures++;
+        continue;
+      }
+
+      const changes: string[] = [];
+      diff(JSON.parse(readFileSync(goldenPath, 'utf-8')) as unknown, actual, '', changes);
+
+      if (changes.length === 0) {
+        console.log(`✓ ${label}`);
+      } else {
+        console.log(`✗ ${label}: ${changes.length} field(s) changed`);
+        for (const line of changes) console.log(`    ${line}`);
+        failures++;
+      }
+    }
+  }
+
+  console.log(`\n${cases} case(s), ${failures} failure(s)`);
+  return failures;
+}
+
+// Parsers log their regex fallbacks at debug level — keep the report readable
+logger.level = 'warn';
+
+const failures = run(process.argv.includes('--update'));
+process.exit(failures > 0 ? 1 : 0);
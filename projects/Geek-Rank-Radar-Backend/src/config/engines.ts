@@ -14,9 +14,16 @@ export interface EngineConfig {
   throttle: ThrottleConfig;
   isLegitimateApi: boolean;
   requiresApiKey: boolean;
+  /** Attempts per scan point before it is marked failed (1 = never retry) */
+  maxPointAttempts: number;
   apiKeyEnv?: string;
   /** Google engines share reputation — group them */
   reputationGroup?: string;
+  /**
+   * Rolling rate of empty or regex-fallback responses at which the engine is
+   * marked degraded (defaults to DEFAULT_DEGRADED_THRESHOLD in ParserHealth)
+   */
+  degradedThreshold?: number;
 }
 
 export const ENGINE_CONFIGS: Record<string, EngineConfig> = {
@@ -34,6 +41,8 @@ export const ENGINE_CONFIGS: Record<string, EngineConfig> = {
     },
     isLegitimateApi: false,
     requiresApiKey: false,
+    // Retries spend the shared Google daily budget — one retry only
+    maxPointAttempts: 2,
     reputationGroup: 'google',
   },
   google_maps: {
@@ -50,6 +59,7 @@ export const ENGINE_CONFIGS: Record<string, EngineConfig> = {
     },
     isLegitimateApi: false,
     requiresApiKey: false,
+    maxPointAttempts: 2,
     reputationGroup: 'google',
   },
   google_local: {
@@ -66,6 +76,7 @@ export const ENGINE_CONFIGS: Record<string, EngineConfig> = {
     },
     isLegitimateApi: false,
     requiresApiKey: false,
+    maxPointAttempts: 2,
     reputationGroup: 'google',
   },
   bing_api: {
@@ -82,6 +93,7 @@ export const ENGINE_CONFIGS: Record<string, EngineConfig> = {
     },
     isLegitimateApi: true,
     requiresApiKey: true,
+    maxPointAttempts: 3,
     apiKeyEnv: 'BING_SEARCH_API_KEY',
   },
   bing_local: {
@@ -98,6 +110,7 @@ export const ENGINE_CONFIGS: Record<string, EngineConfig> = {
     },
     isLegitimateApi: false,
     requiresApiKey: false,
+    maxPointAttempts: 3,
   },
   duckduckgo: {
     engineId: 'duckduckgo',
@@ -113,6 +126,9 @@ export const ENGINE_CONFIGS: Record<string, EngineConfig> = {
     },
     isLegitimateApi: false,
     requiresApiKey: false,
+    maxPointAttempts: 3,
+    // Businesses only come from snippets that include a phone number — most queries return none
+    degradedThreshold: 0.9,
   },
   google_places_api: {
     engineId: 'google_places_api',
@@ -128,6 +144,7 @@ export const ENGINE_CONFIGS: Record<string, EngineConfig> = {
     },
     isLegitimateApi: true,
     requiresApiKey: true,
+    maxPointAttempts: 3,
     apiKeyEnv: 'GOOGLE_PLACES_API_KEY',
   },
 };
@@ -18,6 +18,10 @@ const envSchema = z.object({
   CORS_ORIGIN: z.string().default('https://geekatyourspot.com'),
   PROXY_LIST: optionalKey,
   PROXY_FILE: optionalKey,
+  /** Fixture directory — when set, engines replay recorded SERPs instead of hitting the network */
+  SERP_REPLAY_DIR: optionalKey,
+  /** ZIP centroid CSV for offline geocoding — defaults to the bundled data/us-zip-centroids.csv */
+  GEOCODER_DATASET: optionalKey,
 });
 
 export type Environment = z.infer<typeof envSchema>;
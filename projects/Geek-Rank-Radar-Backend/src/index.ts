@@ -8,14 +8,25 @@ import { errorHandler } from './middleware/errorHandler.js';
 import { rateLimiter } from './middleware/rateLimiter.js';
 import healthRoutes from './routes/health.routes.js';
 import { createScanRoutes } from './routes/scan.routes.js';
+import { createScanBatchRoutes } from './routes/batch.routes.js';
 import { createBusinessRoutes } from './routes/business.routes.js';
 import { createCategoryRoutes, createServiceAreaRoutes } from './routes/category.routes.js';
 import { createSystemRoutes } from './routes/system.routes.js';
 import { createScheduleRoutes } from './routes/schedule.routes.js';
 import { createEnrichmentRoutes } from './routes/enrichment.routes.js';
+import { createAnalyticsRoutes } from './routes/analytics.routes.js';
+import { createAlertRoutes } from './routes/alert.routes.js';
+import { createWebhookRoutes } from './routes/webhook.routes.js';
+import { createExclusionZoneRoutes } from './routes/exclusion.routes.js';
 import { ScanOrchestrator } from './services/scanner/ScanOrchestrator.js';
 import { ScanScheduler } from './services/scheduler/ScanScheduler.js';
 import { EmailEnrichmentService } from './services/enrichment/EmailEnrichmentService.js';
+import { RankAnalytics } from './services/analytics/RankAnalytics.js';
+import { GapAnalyzer } from './services/analytics/GapAnalyzer.js';
+import { CompetitorIntel } from './services/analytics/CompetitorIntel.js';
+import { WebhookDispatcher } from './services/webhooks/WebhookDispatcher.js';
+import { ServiceAreaAssigner } from './services/business/ServiceAreaAssigner.js';
+import { OfflineGeocoder } from './services/geocoding/OfflineGeocoder.js';
 
 const env = loadEnvironment();
 const app = express();
@@ -30,18 +41,30 @@ app.use(healthRoutes);
 
 // Initialize services
 const prisma = getPrisma();
-const orchestrator = new ScanOrchestrator(prisma);
+const webhooks = new WebhookDispatcher(prisma);
+// Shared so area and geocoder caches are reused by scans and the API alike
+const areaAssigner = new ServiceAreaAssigner(prisma);
+const geocoder = new OfflineGeocoder();
+const orchestrator = new ScanOrchestrator(prisma, webhooks, areaAssigner, geocoder);
 const scheduler = new ScanScheduler(prisma, orchestrator);
-const enrichmentService = new EmailEnrichmentService(prisma);
+const enrichmentService = new EmailEnrichmentService(prisma, webhooks);
+const rankAnalytics = new RankAnalytics(prisma, orchestrator.getMetrics());
+const gapAnalyzer = new GapAnalyzer(prisma);
+const competitorIntel = new CompetitorIntel(prisma);
 
 // API routes
 app.use('/api/scans', createScanRoutes(orchestrator));
-app.use('/api/businesses', createBusinessRoutes());
+app.use('/api/scan-batches', createScanBatchRoutes(orchestrator));
+app.use('/api/businesses', createBusinessRoutes(geocoder, areaAssigner));
 app.use('/api/categories', createCategoryRoutes());
-app.use('/api/service-areas', createServiceAreaRoutes());
+app.use('/api/service-areas', createServiceAreaRoutes(areaAssigner, geocoder));
 app.use('/api/system', createSystemRoutes(orchestrator));
 app.use('/api/schedules', createScheduleRoutes(scheduler, orchestrator));
 app.use('/api/enrichment', createEnrichmentRoutes(enrichmentService));
+app.use('/api/analytics', createAnalyticsRoutes(rankAnalytics, gapAnalyzer, competitorIntel, orchestrator));
+app.use('/api/alerts', createAlertRoutes());
+app.use('/api/webhooks', createWebhookRoutes());
+app.use('/api/exclusion-zones', createExclusionZoneRoutes());
 
 // Error handler (must be last)
 app.use(errorHandler);
@@ -65,9 +88,19 @@ app.listen(env.PORT, () => {
   logger.info(`Environment: ${env.NODE_ENV}`);
   logger.info(`Health check: http://localhost:${env.PORT}/health`);
 
-  // Recover orphaned scans from previous service restart
-  orchestrator.recoverOrphanedScans().catch((error: unknown) => {
-    logger.error(`[ScanOrchestrator] Recovery failed: ${error instanceof Error ? error.message : String(error)}`);
+  // Restore engine throttle/block state, then recover orphaned scans from previous service restart
+  orchestrator.restoreEngineStates()
+    .catch((error: unknown) => {
+      logger.error(`[ScanOrchestrator] Engine state restore failed: ${error instanceof Error ? error.message : String(error)}`);
+    })
+    .then(() => orchestrator.recoverOrphanedScans())
+    .catch((error: unknown) => {
+      logger.error(`[ScanOrchestrator] Recovery failed: ${error instanceof Error ? error.message : String(error)}`);
+    });
+
+  // Backfill serviceAreaId for businesses saved before area assignment existed (or before an area changed)
+  areaAssigner.reassignAll().catch((error: unknown) => {
+    logger.error(`[ServiceAreaAssigner] Startup reassignment failed: ${error instanceof Error ? error.message : String(error)}`);
   });
 
   // Start cron scheduler after server is listening
@@ -86,6 +119,7 @@ const shutdown = async (): Promise<void> => {
   logger.info('Shutting down...');
   if (keepAliveTimer) clearInterval(keepAliveTimer);
   scheduler.stop();
+  await orchestrator.saveEngineStates();
   await disconnectPrisma();
   process.exit(0);
 };
@@ -31,7 +31,8 @@ export function validateQuery<T extends z.ZodType>(schema: T) {
       sendError(res, message, 400, 'VALIDATION_ERROR');
       return;
     }
-    req.query = result.data;
+    // Express 5 exposes req.query as a getter — redefine it to hold the parsed values
+    Object.defineProperty(req, 'query', { value: result.data, writable: true, configurable: true });
     next();
   };
 }
@@ -0,0 +1,101 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { getPrisma } from '../config/database.js';
+import { sendSuccess, sendPaginated, sendError } from '../utils/response.js';
+import { validateQuery, validateBody } from '../middleware/validator.js';
+
+const listAlertsSchema = z.object({
+  businessId: z.string().uuid().optional(),
+  changeType: z.enum(['entered_top3', 'left_top3', 'improved', 'dropped']).optional(),
+  acknowledged: z.enum(['true', 'false']).transform((v) => v === 'true').optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const acknowledgeAlertsSchema = z.object({
+  /** Omit to acknowledge every open alert */
+  ids: z.array(z.string().uuid()).min(1).optional(),
+});
+
+export function createAlertRoutes(): Router {
+  const router = Router();
+
+  // GET /api/alerts — Rank change events, newest first
+  router.get('/', validateQuery(listAlertsSchema), async (req, res, next) => {
+    try {
+      const filters = req.query as unknown as z.infer<typeof listAlertsSchema>;
+      const where: Record<string, unknown> = {};
+
+      if (filters.businessId) where.businessId = filters.businessId;
+      if (filters.changeType) where.changeType = filters.changeType;
+      if (filters.acknowledged !== undefined) {
+        where.acknowledgedAt = filters.acknowledged ? { not: null } : null;
+      }
+
+      const [alerts, total] = await Promise.all([
+        getPrisma().rankChangeEvent.findMany({
+          where,
+          include: {
+            business: { select: { id: true, name: true, isMine: true, isCompetitor: true } },
+          },
+          orderBy: { createdAt: 'desc' },
+          skip: (filters.page - 1) * filters.limit,
+          take: filters.limit,
+        }),
+        getPrisma().rankChangeEvent.count({ where }),
+      ]);
+
+      sendPaginated(res, alerts, {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
+      });
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // POST /api/alerts/acknowledge — Acknowledge several (or all open) alerts
+  router.post('/acknowledge', validateBody(acknowledgeAlertsSchema), async (req, res, next) => {
+    try {
+      const { ids } = req.body as z.infer<typeof acknowledgeAlertsSchema>;
+      const where: Record<string, unknown> = { acknowledgedAt: null };
+      if (ids) where.id = { in: ids };
+
+      const result = await getPrisma().rankChangeEvent.updateMany({
+        where,
+        data: { acknowledgedAt: new Date() },
+      });
+
+      sendSuccess(res, { acknowledged: result.count });
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // POST /api/alerts/:id/acknowledge — Acknowledge a single alert
+  router.post('/:id/acknowledge', async (req, res, next) => {
+    try {
+      const id = req.params.id as string;
+      const alert = await getPrisma().rankChangeEvent.findUnique({ where: { id } });
+      if (!alert) {
+        sendError(res, 'Alert not found', 404);
+        return;
+      }
+
+      const updated = alert.acknowledgedAt
+        ? alert
+        : await getPrisma().rankChangeEvent.update({
+          where: { id },
+          data: { acknowledgedAt: new Date() },
+        });
+
+      sendSuccess(res, updated);
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  return router;
+}
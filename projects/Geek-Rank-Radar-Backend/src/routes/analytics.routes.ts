@@ -0,0 +1,147 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { getPrisma } from '../config/database.js';
+import { sendSuccess, sendError } from '../utils/response.js';
+import { validateQuery } from '../middleware/validator.js';
+import type { RankAnalytics } from '../services/analytics/RankAnalytics.js';
+import type { GapAnalyzer } from '../services/analytics/GapAnalyzer.js';
+import type { CompetitorIntel } from '../services/analytics/CompetitorIntel.js';
+import type { ScanOrchestrator } from '../services/scanner/ScanOrchestrator.js';
+
+const rankTrendsSchema = z.object({
+  businessId: z.string().uuid(),
+  keyword: z.string().min(1).optional(),
+  serviceAreaId: z.string().uuid().optional(),
+  engineId: z.string().min(1).optional(),
+  startDate: z.string().date().or(z.string().datetime()).optional(),
+  endDate: z.string().date().or(z.string().datetime()).optional(),
+});
+
+const geoHeatmapSchema = z.object({
+  businessId: z.string().uuid(),
+  keyword: z.string().min(1),
+  serviceAreaId: z.string().uuid(),
+  engineId: z.string().min(1),
+  scanId: z.string().uuid().optional(),
+});
+
+const gapAnalysisSchema = z.object({
+  businessId: z.string().uuid().optional(),
+  categoryId: z.string().uuid().optional(),
+  type: z.enum(['geographic', 'keyword', 'cross_engine']).optional(),
+  opportunity: z.enum(['high', 'medium', 'low']).optional(),
+});
+
+const competitorsSchema = z.object({
+  categoryId: z.string().uuid().optional(),
+  serviceAreaId: z.string().uuid().optional(),
+});
+
+const marketOverviewSchema = z.object({
+  categoryId: z.string().uuid().optional(),
+  serviceAreaId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+  includeOutside: z.enum(['true', 'false']).transform((v) => v === 'true').optional(),
+});
+
+const crossEngineSchema = z.object({
+  businessId: z.string().uuid(),
+  keyword: z.string().min(1),
+  serviceAreaId: z.string().uuid(),
+});
+
+export function createAnalyticsRoutes(
+  rankAnalytics: RankAnalytics,
+  gapAnalyzer: GapAnalyzer,
+  competitorIntel: CompetitorIntel,
+  orchestrator: ScanOrchestrator,
+): Router {
+  const router = Router();
+
+  // GET /api/analytics/rank-trends — Rank position over time for a business
+  router.get('/rank-trends', validateQuery(rankTrendsSchema), async (req, res, next) => {
+    try {
+      const filters = req.query as unknown as z.infer<typeof rankTrendsSchema>;
+
+      const business = await getPrisma().business.findUnique({
+        where: { id: filters.businessId },
+        select: { id: true },
+      });
+      if (!business) {
+        sendError(res, 'Business not found', 404);
+        return;
+      }
+
+      const trends = await rankAnalytics.getRankTrends(filters);
+      sendSuccess(res, trends);
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // GET /api/analytics/geo-heatmap — NxN rank grid for a business from one scan
+  router.get('/geo-heatmap', validateQuery(geoHeatmapSchema), async (req, res, next) => {
+    try {
+      const filters = req.query as unknown as z.infer<typeof geoHeatmapSchema>;
+      const heatmap = await rankAnalytics.getGeoHeatmap(filters);
+      if (!heatmap) {
+        sendError(res, 'No completed scan found for this keyword, area and engine', 404);
+        return;
+      }
+      sendSuccess(res, heatmap);
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // GET /api/analytics/cross-engine — Latest avg position per engine with deltas vs Google
+  router.get('/cross-engine', validateQuery(crossEngineSchema), async (req, res, next) => {
+    try {
+      const filters = req.query as unknown as z.infer<typeof crossEngineSchema>;
+      const engineIds = [...orchestrator.getEngines().keys()];
+      const comparison = await rankAnalytics.getCrossEngineComparison(filters, engineIds);
+      if (!comparison) {
+        sendError(res, 'Business not found', 404);
+        return;
+      }
+      sendSuccess(res, comparison);
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // GET /api/analytics/gap-analysis — Geographic, keyword and cross-engine gaps for own businesses
+  router.get('/gap-analysis', validateQuery(gapAnalysisSchema), async (req, res, next) => {
+    try {
+      const filters = req.query as unknown as z.infer<typeof gapAnalysisSchema>;
+      const gaps = await gapAnalyzer.analyze(filters);
+      sendSuccess(res, gaps);
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // GET /api/analytics/competitors — Competitors side by side with own businesses
+  router.get('/competitors', validateQuery(competitorsSchema), async (req, res, next) => {
+    try {
+      const filters = req.query as unknown as z.infer<typeof competitorsSchema>;
+      const comparison = await competitorIntel.compareCompetitors(filters);
+      sendSuccess(res, comparison);
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // GET /api/analytics/market-overview — Market size and leaders per category + service area
+  router.get('/market-overview', validateQuery(marketOverviewSchema), async (req, res, next) => {
+    try {
+      const filters = req.query as unknown as z.infer<typeof marketOverviewSchema>;
+      const overview = await competitorIntel.getMarketOverview(filters);
+      sendSuccess(res, overview);
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  return router;
+}
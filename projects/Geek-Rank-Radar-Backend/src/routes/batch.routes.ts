@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { getPrisma } from '../config/database.js';
+import { sendSuccess, sendError } from '../utils/response.js';
+import type { ScanOrchestrator } from '../services/scanner/ScanOrchestrator.js';
+
+export function createScanBatchRoutes(orchestrator: ScanOrchestrator): Router {
+  const router = Router();
+
+  // GET /api/scan-batches/:id — Batch details with aggregate progress, per-engine breakdown and failures
+  router.get('/:id', async (req, res, next) => {
+    try {
+      const id = req.params.id as string;
+      const batch = await getPrisma().scanBatch.findUnique({
+        where: { id },
+        include: { schedule: { select: { id: true, name: true } } },
+      });
+      if (!batch) {
+        sendError(res, 'Scan batch not found', 404);
+        return;
+      }
+
+      const progress = await orchestrator.getBatchProgress(id);
+      sendSuccess(res, { ...batch, progress });
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -3,9 +3,12 @@ import { z } from 'zod';
 import { getPrisma } from '../config/database.js';
 import { sendSuccess, sendPaginated, sendError } from '../utils/response.js';
 import { validateQuery, validateBody } from '../middleware/validator.js';
+import type { OfflineGeocoder } from '../services/geocoding/OfflineGeocoder.js';
+import type { ServiceAreaAssigner } from '../services/business/ServiceAreaAssigner.js';
 
 const listBusinessesSchema = z.object({
   categoryId: z.string().uuid().optional(),
+  serviceAreaId: z.string().uuid().optional(),
   city: z.string().optional(),
   state: z.string().optional(),
   isMine: z.coerce.boolean().optional(),
@@ -13,6 +16,9 @@ const listBusinessesSchema = z.object({
   minRating: z.coerce.number().optional(),
   hasPhone: z.coerce.boolean().optional(),
   hasWebsite: z.coerce.boolean().optional(),
+  reviewVelocity: z.enum(['accelerating', 'stable', 'slowing', 'stale']).optional(),
+  rankingMomentum: z.enum(['rising', 'stable', 'falling']).optional(),
+  websiteQuality: z.enum(['modern', 'outdated', 'none']).optional(),
   page: z.coerce.number().int().min(1).default(1),
   limit: z.coerce.number().int().min(1).max(100).default(20),
 });
@@ -22,7 +28,7 @@ const updateBusinessSchema = z.object({
   isCompetitor: z.boolean().optional(),
 });
 
-export function createBusinessRoutes(): Router {
+export function createBusinessRoutes(geocoder: OfflineGeocoder, areaAssigner: ServiceAreaAssigner): Router {
   const router = Router();
 
   // GET /api/businesses — List businesses with filters
@@ -32,12 +38,16 @@ export function createBusinessRoutes(): Router {
       const where: Record<string, unknown> = { isActive: true };
 
       if (filters.categoryId) where.categoryId = filters.categoryId;
+      if (filters.serviceAreaId) where.serviceAreaId = filters.serviceAreaId;
       if (filters.city) where.city = { equals: filters.city, mode: 'insensitive' };
       if (filters.state) where.state = filters.state;
       if (filters.isMine !== undefined) where.isMine = filters.isMine;
       if (filters.isCompetitor !== undefined) where.isCompetitor = filters.isCompetitor;
       if (filters.hasPhone) where.phone = { not: null };
       if (filters.hasWebsite) where.website = { not: null };
+      if (filters.reviewVelocity) where.reviewVelocity = filters.reviewVelocity;
+      if (filters.rankingMomentum) where.rankingMomentum = filters.rankingMomentum;
+      if (filters.websiteQuality) where.websiteQuality = filters.websiteQuality;
       if (filters.minRating !== undefined) {
         where.googleRating = { gte: filters.minRating };
       }
@@ -122,6 +132,36 @@ export function createBusinessRoutes(): Router {
     }
   });
 
+  // POST /api/businesses/geocode — Backfill missing coordinates from each business's ZIP centroid
+  router.post('/geocode', async (_req, res, next) => {
+    try {
+      const businesses = await getPrisma().business.findMany({
+        where: { OR: [{ lat: null }, { lng: null }], zip: { not: null } },
+        select: { id: true, zip: true },
+      });
+
+      let located = 0;
+      for (const business of businesses) {
+        const centroid = business.zip ? await geocoder.geocodeZip(business.zip) : null;
+        if (!centroid) continue;
+
+        await getPrisma().business.update({
+          where: { id: business.id },
+          data: {
+            lat: centroid.lat,
+            lng: centroid.lng,
+            serviceAreaId: await areaAssigner.findAreaId(centroid.lat, centroid.lng),
+          },
+        });
+        located++;
+      }
+
+      sendSuccess(res, { checked: businesses.length, located, unmatched: businesses.length - located });
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
   // GET /api/businesses/:id — Full business profile
   router.get('/:id', async (req, res, next) => {
     try {
@@ -1,8 +1,14 @@
 import { Router } from 'express';
 import { z } from 'zod';
+import { Prisma } from '../generated/prisma/client/index.js';
 import { getPrisma } from '../config/database.js';
+import { logger } from '../config/logger.js';
 import { sendSuccess } from '../utils/response.js';
+import { toErrorMessage, ValidationError } from '../utils/errors.js';
+import { areaGeometrySchema } from '../utils/geojson.js';
 import { validateBody } from '../middleware/validator.js';
+import type { ServiceAreaAssigner } from '../services/business/ServiceAreaAssigner.js';
+import type { OfflineGeocoder } from '../services/geocoding/OfflineGeocoder.js';
 
 const createCategorySchema = z.object({
   name: z.string().min(1),
@@ -19,18 +25,30 @@ const addKeywordsSchema = z.object({
   keywords: z.array(z.string().min(1)).min(1),
 });
 
+/** Center by centerLat/centerLng, or geocoded offline from a zip or a city (in state) */
 const createServiceAreaSchema = z.object({
-  name: z.string().min(1),
+  name: z.string().min(1).optional(),
   state: z.string().default('FL'),
-  centerLat: z.number(),
-  centerLng: z.number(),
+  centerLat: z.number().optional(),
+  centerLng: z.number().optional(),
+  zip: z.string().regex(/^\d{5}(-\d{4})?$/, 'zip must be a 5-digit ZIP or ZIP+4').optional(),
+  city: z.string().min(1).optional(),
   radiusMiles: z.number().default(3),
-});
+  boundary: areaGeometrySchema.optional(),
+}).refine(
+  (body) => (body.centerLat !== undefined && body.centerLng !== undefined) || body.zip || body.city,
+  { message: 'Provide centerLat and centerLng, a zip, or a city and state', path: ['centerLat'] },
+).refine(
+  (body) => body.name || body.zip || body.city,
+  { message: 'name is required when the area is placed by coordinates', path: ['name'] },
+);
 
 const updateServiceAreaSchema = z.object({
   name: z.string().min(1).optional(),
   isActive: z.boolean().optional(),
   radiusMiles: z.number().optional(),
+  /** null removes the boundary, falling back to the radius */
+  boundary: areaGeometrySchema.nullable().optional(),
 });
 
 export function createCategoryRoutes(): Router {
@@ -107,9 +125,16 @@ export function createCategoryRoutes(): Router {
   return router;
 }
 
-export function createServiceAreaRoutes(): Router {
+export function createServiceAreaRoutes(areaAssigner: ServiceAreaAssigner, geocoder: OfflineGeocoder): Router {
   const router = Router();
 
+  // Moving an area's extent can move businesses in or out of it
+  const reassignBusinesses = (): void => {
+    areaAssigner.reassignAll().catch((error: unknown) => {
+      logger.error(`[ServiceAreas] Business reassignment failed: ${toErrorMessage(error)}`);
+    });
+  };
+
   // GET /api/service-areas — List service areas
   router.get('/', async (_req, res, next) => {
     try {
@@ -126,7 +151,12 @@ export function createServiceAreaRoutes(): Router {
   // POST /api/service-areas — Create service area
   router.post('/', validateBody(createServiceAreaSchema), async (req, res, next) => {
     try {
-      const area = await getPrisma().serviceArea.create({ data: req.body });
+      const { zip, city, ...fields } = req.body as z.infer<typeof createServiceAreaSchema>;
+      const location = await locateServiceArea(geocoder, { ...fields, zip, city });
+      const area = await getPrisma().serviceArea.create({
+        data: { ...fields, ...location },
+      });
+      reassignBusinesses();
       sendSuccess(res, area, 201);
     } catch (error: unknown) {
       next(error);
@@ -137,10 +167,17 @@ export function createServiceAreaRoutes(): Router {
   router.put('/:id', validateBody(updateServiceAreaSchema), async (req, res, next) => {
     try {
       const id = req.params.id as string;
+      const { boundary, ...fields } = req.body as z.infer<typeof updateServiceAreaSchema>;
       const area = await getPrisma().serviceArea.update({
         where: { id },
-        data: req.body,
+        data: {
+          ...fields,
+          ...(boundary !== undefined ? { boundary: boundary ?? Prisma.DbNull } : {}),
+        },
       });
+      if (boundary !== undefined || fields.radiusMiles !== undefined || fields.isActive !== undefined) {
+        reassignBusinesses();
+      }
       sendSuccess(res, area);
     } catch (error: unknown) {
       next(error);
@@ -149,3 +186,37 @@ export function createServiceAreaRoutes(): Router {
 
   return router;
 }
+
+/**
+ * Name, state and center for a new service area — as given, or from the
+ * zip's (else the city's) centroid.
+ */
+async function locateServiceArea(
+  geocoder: OfflineGeocoder,
+  body: { name?: string; state: string; centerLat?: number; centerLng?: number; zip?: string; city?: string },
+): Promise<{ name: string; state: string; centerLat: number; centerLng: number }> {
+  if (body.centerLat !== undefined && body.centerLng !== undefined) {
+    return {
+      name: body.name ?? body.city ?? body.zip ?? '',
+      state: body.state,
+      centerLat: body.centerLat,
+      centerLng: body.centerLng,
+    };
+  }
+
+  const result = body.zip
+    ? await geocoder.geocodeZip(body.zip)
+    : await geocoder.geocodeCity(body.city ?? '', body.state);
+  if (!result) {
+    throw new ValidationError(body.zip
+      ? `No location found for ZIP ${body.zip}`
+      : `No location found for ${body.city}, ${body.state}`);
+  }
+
+  return {
+    name: body.name ?? result.city,
+    state: result.state,
+    centerLat: result.lat,
+    centerLng: result.lng,
+  };
+}
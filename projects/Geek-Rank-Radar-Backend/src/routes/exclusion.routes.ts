@@ -0,0 +1,91 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { getPrisma } from '../config/database.js';
+import { sendSuccess, sendError } from '../utils/response.js';
+import { validateBody } from '../middleware/validator.js';
+import { areaGeometrySchema } from '../utils/geojson.js';
+
+const createZoneSchema = z.object({
+  name: z.string().min(1).max(100),
+  kind: z.enum(['water']).default('water'),
+  geometry: areaGeometrySchema,
+  isActive: z.boolean().default(true),
+});
+
+const updateZoneSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  geometry: areaGeometrySchema.optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * Stored areas (open water, for now) whose grid points are skipped
+ * by scans created with excludeWater.
+ */
+export function createExclusionZoneRoutes(): Router {
+  const router = Router();
+  // GET /api/exclusion-zones — List exclusion zones
+  router.get('/', async (_req, res, next) => {
+    try {
+      const zones = await getPrisma().exclusionZone.findMany({
+        orderBy: { createdAt: 'desc' },
+      });
+      sendSuccess(res, zones);
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // POST /api/exclusion-zones — Create an exclusion zone from a GeoJSON Polygon/MultiPolygon
+  router.post('/', validateBody(createZoneSchema), async (req, res, next) => {
+    try {
+      const body = req.body as z.infer<typeof createZoneSchema>;
+      const zone = await getPrisma().exclusionZone.create({
+        data: body,
+      });
+      sendSuccess(res, zone, 201);
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // PATCH /api/exclusion-zones/:id — Update an exclusion zone
+  router.patch('/:id', validateBody(updateZoneSchema), async (req, res, next) => {
+    try {
+      const id = req.params.id as string;
+      const existing = await getPrisma().exclusionZone.findUnique({ where: { id }, select: { id: true } });
+      if (!existing) {
+        sendError(res, 'Exclusion zone not found', 404);
+        return;
+      }
+
+      const body = req.body as z.infer<typeof updateZoneSchema>;
+      const updated = await getPrisma().exclusionZone.update({
+        where: { id },
+        data: body,
+      });
+      sendSuccess(res, updated);
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // DELETE /api/exclusion-zones/:id — Delete an exclusion zone
+  router.delete('/:id', async (req, res, next) => {
+    try {
+      const id = req.params.id as string;
+      const existing = await getPrisma().exclusionZone.findUnique({ where: { id }, select: { id: true } });
+      if (!existing) {
+        sendError(res, 'Exclusion zone not found', 404);
+        return;
+      }
+
+      await getPrisma().exclusionZone.delete({ where: { id } });
+      sendSuccess(res, { message: 'Exclusion zone deleted' });
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  return router;
+}
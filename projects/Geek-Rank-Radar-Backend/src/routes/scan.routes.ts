@@ -3,21 +3,41 @@ import { z } from 'zod';
 import { getPrisma } from '../config/database.js';
 import { sendSuccess, sendPaginated, sendError } from '../utils/response.js';
 import { validateBody, validateQuery } from '../middleware/validator.js';
+import { openEventStream } from '../utils/sse.js';
+import { areaGeometrySchema } from '../utils/geojson.js';
+import { GRID_SHAPES, MIN_GRID_DIMENSION, MAX_GRID_DIMENSION } from '../services/grid/gridGenerator.js';
 import type { ScanOrchestrator } from '../services/scanner/ScanOrchestrator.js';
+import type { ScanEvent } from '../types/scan.types.js';
+
+const gridDimensionSchema = z.number().int().min(MIN_GRID_DIMENSION).max(MAX_GRID_DIMENSION);
+
+/** Grid layout fields shared by single and full scans */
+const gridFields = {
+  gridSize: gridDimensionSchema.optional(),
+  gridRows: gridDimensionSchema.optional(),
+  gridCols: gridDimensionSchema.optional(),
+  spacingMiles: z.number().positive().max(10).optional(),
+  gridShape: z.enum(GRID_SHAPES).optional(),
+  excludeWater: z.boolean().optional(),
+};
+
+/** Scan states after which a per-scan event stream is closed */
+const TERMINAL_STATUSES = new Set(['completed', 'failed', 'cancelled']);
 
 const createScanSchema = z.object({
   serviceAreaId: z.string().uuid(),
   categoryId: z.string().uuid(),
   keyword: z.string().min(1),
   searchEngine: z.string().min(1),
-  gridSize: z.number().int().min(3).max(9).optional(),
+  ...gridFields,
+  polygon: areaGeometrySchema.optional(),
 });
 
 const fullScanSchema = z.object({
   serviceAreaIds: z.array(z.string().uuid()).optional(),
   categoryIds: z.array(z.string().uuid()).optional(),
   engineIds: z.array(z.string().min(1)).optional(),
-  gridSize: z.number().int().min(3).max(9).optional(),
+  ...gridFields,
 });
 
 const listScansSchema = z.object({
@@ -25,6 +45,7 @@ const listScansSchema = z.object({
   searchEngine: z.string().optional(),
   serviceAreaId: z.string().uuid().optional(),
   categoryId: z.string().uuid().optional(),
+  batchId: z.string().uuid().optional(),
   page: z.coerce.number().int().min(1).default(1),
   limit: z.coerce.number().int().min(1).max(100).default(20),
 });
@@ -37,44 +58,77 @@ export function createScanRoutes(orchestrator: ScanOrchestrator): Router {
   // POST /api/scans — Create and queue a new scan
   router.post('/', validateBody(createScanSchema), async (req, res, next) => {
     try {
-      const scanId = await orchestrator.createScan(req.body);
+      const { scanId, budget } = await orchestrator.createScan(req.body);
       const scan = await getPrisma().scan.findUnique({
         where: { id: scanId },
         include: { serviceArea: true, category: true },
       });
-      sendSuccess(res, scan, 201);
+      sendSuccess(res, { ...scan, budget }, 201);
     } catch (error: unknown) {
       next(error);
     }
   });
 
-  // POST /api/scans/full — Create a full multi-engine scan (async — returns 202 immediately)
-  router.post('/full', validateBody(fullScanSchema), (req, res) => {
-    orchestrator.createFullScan(req.body).catch(() => {});
+  // POST /api/scans/full — Create a full multi-engine scan (async — returns 202 once its budget checks pass)
+  router.post('/full', validateBody(fullScanSchema), async (req, res, next) => {
+    try {
+      const preview = await orchestrator.validateFullScan(req.body);
+      const batchId = await orchestrator.createScanBatch(req.body);
+      orchestrator.createFullScan(req.body, batchId).catch(() => { /* recorded on the batch */ });
 
-    sendSuccess(res, {
-      message: 'Full scan started. Use GET /api/scans to monitor progress.',
-    }, 202);
+      sendSuccess(res, {
+        batchId,
+        scans: preview.scans,
+        totalRequests: preview.totalRequests,
+        estimatedCompletionAt: preview.estimatedCompletionAt,
+        skipped: preview.skipped,
+        message: `Full scan started. Use GET /api/scan-batches/${batchId} to monitor progress.`,
+      }, 202);
+    } catch (error: unknown) {
+      next(error);
+    }
   });
 
-  // GET /api/scans/engines/status — Get engine status (admin)
-  router.get('/engines/status', (_req, res) => {
-    const engines = orchestrator.getEngines();
-    const queue = orchestrator.getQueue();
-    const status: Record<string, unknown>[] = [];
-
-    for (const [engineId, engine] of engines) {
-      status.push({
-        engineId,
-        name: engine.engineName,
-        ...engine.getState(),
-        queueDepth: queue.getQueueDepth(engineId),
-        isProcessing: queue.getProcessingEngines().has(engineId),
-        hasRetryTimer: queue.hasRetryTimer(engineId),
-      });
+  // POST /api/scans/preview — Grid size, request cost and timing of a scan, without creating it
+  router.post('/preview', validateBody(createScanSchema), async (req, res, next) => {
+    try {
+      sendSuccess(res, await orchestrator.previewScan(req.body));
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // POST /api/scans/full/preview — Scans a full scan would create, their cost and timing, without creating them
+  router.post('/full/preview', validateBody(fullScanSchema), async (req, res, next) => {
+    try {
+      sendSuccess(res, await orchestrator.previewFullScan(req.body));
+    } catch (error: unknown) {
+      next(error);
     }
+  });
+
+  // GET /api/scans/engines/status — Get engine status (admin)
+  router.get('/engines/status', async (_req, res, next) => {
+    try {
+      const engines = orchestrator.getEngines();
+      const queue = orchestrator.getQueue();
+      const status: Record<string, unknown>[] = [];
 
-    sendSuccess(res, status);
+      for (const [engineId, engine] of engines) {
+        status.push({
+          engineId,
+          name: engine.engineName,
+          ...engine.getState(),
+          queueDepth: await queue.getQueueDepth(engineId),
+          isProcessing: queue.getProcessingEngines().has(engineId),
+          hasRetryTimer: queue.hasRetryTimer(engineId),
+        });
+      }
+
+      sendSuccess(res, status);
+    } catch (error: unknown) {
+      next(error);
+    }
   });
 
   // POST /api/scans/engines/:engineId/clear-block — Clear engine block (admin)
@@ -95,15 +149,25 @@ export function createScanRoutes(orchestrator: ScanOrchestrator): Router {
     });
   });
 
+  // GET /api/scans/stream — SSE feed of every point, scan and engine event
+  router.get('/stream', (_req, res) => {
+    let unsubscribe = (): void => {};
+    const stream = openEventStream(res, () => unsubscribe());
+    unsubscribe = orchestrator.getEvents().subscribe((event) => {
+      stream.send(event.type, event.data);
+    });
+  });
+
   // GET /api/scans — List scans
   router.get('/', validateQuery(listScansSchema), async (req, res, next) => {
     try {
-      const { status, searchEngine, serviceAreaId, categoryId, page, limit } = req.query as unknown as z.infer<typeof listScansSchema>;
+      const { status, searchEngine, serviceAreaId, categoryId, batchId, page, limit } = req.query as unknown as z.infer<typeof listScansSchema>;
       const where: Record<string, unknown> = {};
       if (status) where.status = status;
       if (searchEngine) where.searchEngine = searchEngine;
       if (serviceAreaId) where.serviceAreaId = serviceAreaId;
       if (categoryId) where.categoryId = categoryId;
+      if (batchId) where.batchId = batchId;
 
       const [scans, total] = await Promise.all([
         getPrisma().scan.findMany({
@@ -141,17 +205,79 @@ export function createScanRoutes(orchestrator: ScanOrchestrator): Router {
         sendError(res, 'Scan not found', 404);
         return;
       }
+      const estimates = await orchestrator.getEstimator().estimateScans([id]);
       sendSuccess(res, {
         ...scan,
         percentComplete: scan.pointsTotal > 0
           ? Math.round((scan.pointsCompleted / scan.pointsTotal) * 100)
           : 0,
+        estimatedCompletionAt: estimates.get(id) ?? null,
       });
     } catch (error: unknown) {
       next(error);
     }
   });
 
+  // GET /api/scans/:id/events — SSE feed for one scan; closes once the scan finishes
+  router.get('/:id/events', async (req, res, next) => {
+    // Subscribe before reading the snapshot — a status change in between is buffered, not lost
+    const buffered: ScanEvent[] = [];
+    let deliver = (event: ScanEvent): void => {
+      buffered.push(event);
+    };
+    const unsubscribe = orchestrator.getEvents().subscribe((event) => deliver(event));
+
+    try {
+      const id = req.params.id as string;
+      const scan = await getPrisma().scan.findUnique({
+        where: { id },
+        select: { id: true, searchEngine: true, status: true, pointsCompleted: true, pointsTotal: true, errorMessage: true },
+      });
+      if (!scan) {
+        unsubscribe();
+        sendError(res, 'Scan not found', 404);
+        return;
+      }
+      // The client left during the lookup — 'close' has already fired, so the stream would never clean up
+      if (res.destroyed || req.socket.destroyed) {
+        unsubscribe();
+        return;
+      }
+
+      const stream = openEventStream(res, unsubscribe);
+
+      // Initial snapshot so clients can render before the next event arrives
+      stream.send('scan-status', {
+        scanId: scan.id,
+        status: scan.status,
+        pointsCompleted: scan.pointsCompleted,
+        pointsTotal: scan.pointsTotal,
+        errorMessage: scan.errorMessage,
+      });
+      if (TERMINAL_STATUSES.has(scan.status)) {
+        stream.close();
+        return;
+      }
+
+      deliver = (event) => {
+        if (event.type === 'engine-status') {
+          if (event.data.engineId === scan.searchEngine) stream.send(event.type, event.data);
+          return;
+        }
+        if (event.data.scanId !== id) return;
+
+        stream.send(event.type, event.data);
+        if (event.type === 'scan-status' && TERMINAL_STATUSES.has(event.data.status)) {
+          stream.close();
+        }
+      };
+      for (const event of buffered.splice(0)) deliver(event);
+    } catch (error: unknown) {
+      unsubscribe();
+      next(error);
+    }
+  });
+
   // GET /api/scans/:id/results — Get scan results with rankings
   router.get('/:id/results', async (req, res, next) => {
     try {
@@ -182,7 +308,108 @@ export function createScanRoutes(orchestrator: ScanOrchestrator): Router {
     }
   });
 
-  // DELETE /api/scans/:id — Cancel a scan
+  // GET /api/scans/:id/summary — SoLV, ATRP and ARP per business
+  router.get('/:id/summary', async (req, res, next) => {
+    try {
+      const id = req.params.id as string;
+      const scan = await getPrisma().scan.findUnique({
+        where: { id },
+        include: { serviceArea: true, category: true },
+      });
+      if (!scan) {
+        sendError(res, 'Scan not found', 404);
+        return;
+      }
+      if (scan.status !== 'completed') {
+        sendError(res, `Scan is ${scan.status} — summary is available once it completes`, 409, 'SCAN_NOT_COMPLETED');
+        return;
+      }
+
+      // Scans completed before summaries existed are summarized on first request
+      const metrics = orchestrator.getMetrics();
+      let businesses = await metrics.getScanMetrics(id);
+      if (businesses.length === 0 && await metrics.summarizeScan(id) > 0) {
+        businesses = await metrics.getScanMetrics(id);
+      }
+
+      sendSuccess(res, { scan, businesses });
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // POST /api/scans/:id/retry-failed — Re-run only the points that failed
+  router.post('/:id/retry-failed', async (req, res, next) => {
+    try {
+      const id = req.params.id as string;
+      const scan = await getPrisma().scan.findUnique({ where: { id } });
+      if (!scan) {
+        sendError(res, 'Scan not found', 404);
+        return;
+      }
+      if (scan.status === 'queued' || scan.status === 'running' || scan.status === 'paused') {
+        sendError(res, `Scan is ${scan.status} — retry once it finishes`, 409, 'SCAN_IN_PROGRESS');
+        return;
+      }
+      if (scan.status === 'cancelled') {
+        sendError(res, 'Cannot retry a cancelled scan', 409);
+        return;
+      }
+
+      const requeued = await orchestrator.retryFailedPoints(id);
+      if (requeued === 0) {
+        sendError(res, 'Scan has no failed points', 400);
+        return;
+      }
+      sendSuccess(res, { scanId: id, requeued }, 202);
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // POST /api/scans/:id/pause — Park the scan's remaining tasks
+  router.post('/:id/pause', async (req, res, next) => {
+    try {
+      const id = req.params.id as string;
+      const scan = await getPrisma().scan.findUnique({ where: { id } });
+      if (!scan) {
+        sendError(res, 'Scan not found', 404);
+        return;
+      }
+      if (scan.status !== 'queued' && scan.status !== 'running') {
+        sendError(res, `Cannot pause a ${scan.status} scan`, 409, 'SCAN_NOT_RUNNING');
+        return;
+      }
+
+      const parkedTasks = await orchestrator.pauseScan(id);
+      sendSuccess(res, { scanId: id, status: 'paused', parkedTasks });
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // POST /api/scans/:id/resume — Restore a paused scan's tasks
+  router.post('/:id/resume', async (req, res, next) => {
+    try {
+      const id = req.params.id as string;
+      const scan = await getPrisma().scan.findUnique({ where: { id } });
+      if (!scan) {
+        sendError(res, 'Scan not found', 404);
+        return;
+      }
+      if (scan.status !== 'paused') {
+        sendError(res, `Scan is ${scan.status}, not paused`, 409, 'SCAN_NOT_PAUSED');
+        return;
+      }
+
+      const restoredTasks = await orchestrator.resumeScan(id);
+      sendSuccess(res, { scanId: id, status: 'running', restoredTasks });
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // DELETE /api/scans/:id — Cancel a scan and purge its queued tasks
   router.delete('/:id', async (req, res, next) => {
     try {
       const id = req.params.id as string;
@@ -191,15 +418,13 @@ export function createScanRoutes(orchestrator: ScanOrchestrator): Router {
         sendError(res, 'Scan not found', 404);
         return;
       }
-      if (scan.status === 'completed' || scan.status === 'failed') {
+      if (TERMINAL_STATUSES.has(scan.status)) {
         sendError(res, 'Cannot cancel a finished scan', 400);
         return;
       }
-      await getPrisma().scan.update({
-        where: { id },
-        data: { status: 'cancelled', completedAt: new Date() },
-      });
-      sendSuccess(res, { message: 'Scan cancelled' });
+
+      const purgedTasks = await orchestrator.cancelScan(id);
+      sendSuccess(res, { message: 'Scan cancelled', purgedTasks });
     } catch (error: unknown) {
       next(error);
     }
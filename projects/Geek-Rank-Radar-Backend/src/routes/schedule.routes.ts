@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { getPrisma } from '../config/database.js';
 import { sendSuccess, sendError } from '../utils/response.js';
 import { validateBody } from '../middleware/validator.js';
+import { MIN_GRID_DIMENSION, MAX_GRID_DIMENSION } from '../services/grid/gridGenerator.js';
 import type { ScanScheduler } from '../services/scheduler/ScanScheduler.js';
 import type { ScanOrchestrator } from '../services/scanner/ScanOrchestrator.js';
 
@@ -12,7 +13,7 @@ const createScheduleSchema = z.object({
   serviceAreaIds: z.array(z.string().uuid()).default([]),
   categoryIds: z.array(z.string().uuid()).default([]),
   engineIds: z.array(z.string().min(1)).default([]),
-  gridSize: z.number().int().min(3).max(9).default(7),
+  gridSize: z.number().int().min(MIN_GRID_DIMENSION).max(MAX_GRID_DIMENSION).default(7),
   isActive: z.boolean().default(true),
 });
 
@@ -22,7 +23,7 @@ const updateScheduleSchema = z.object({
   serviceAreaIds: z.array(z.string().uuid()).optional(),
   categoryIds: z.array(z.string().uuid()).optional(),
   engineIds: z.array(z.string().min(1)).optional(),
-  gridSize: z.number().int().min(3).max(9).optional(),
+  gridSize: z.number().int().min(MIN_GRID_DIMENSION).max(MAX_GRID_DIMENSION).optional(),
   isActive: z.boolean().optional(),
 });
 
@@ -143,12 +144,14 @@ export function createScheduleRoutes(scheduler: ScanScheduler, orchestrator: Sca
         return;
       }
 
-      const scanIds = await orchestrator.createFullScan({
+      const request = {
         serviceAreaIds: schedule.serviceAreaIds.length > 0 ? schedule.serviceAreaIds : undefined,
         categoryIds: schedule.categoryIds.length > 0 ? schedule.categoryIds : undefined,
         engineIds: schedule.engineIds.length > 0 ? schedule.engineIds : undefined,
         gridSize: schedule.gridSize,
-      });
+      };
+      const batchId = await orchestrator.createScanBatch(request, id);
+      const { scanIds } = await orchestrator.createFullScan(request, batchId);
 
       await prisma.scanSchedule.update({
         where: { id },
@@ -157,6 +160,7 @@ export function createScheduleRoutes(scheduler: ScanScheduler, orchestrator: Sca
 
       sendSuccess(res, {
         message: `Triggered "${schedule.name}" — ${scanIds.length} scans created`,
+        batchId,
         scanIds,
       });
     } catch (error: unknown) {
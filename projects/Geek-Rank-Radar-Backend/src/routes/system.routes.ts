@@ -20,27 +20,40 @@ export function createSystemRoutes(orchestrator: ScanOrchestrator): Router {
         requestsToday: state.requestsToday,
         lastRequestAt: state.lastRequestAt,
         blockedUntil: state.blockedUntil,
+        parserHealth: engine.getParserHealth(),
       });
     }
 
     sendSuccess(res, statuses);
   });
 
-  // GET /api/system/scan-queue — Current queue depth
-  router.get('/scan-queue', (_req, res) => {
-    const engines = orchestrator.getEngines();
-    const queue = orchestrator.getQueue();
-    const depths: Record<string, number> = {};
+  // GET /api/system/scan-queue — Current queue depth and when each engine's queue drains
+  router.get('/scan-queue', async (_req, res, next) => {
+    try {
+      const queue = orchestrator.getQueue();
+      const estimates = await orchestrator.getEstimator().estimateEngines();
+      const depths: Record<string, number> = {};
+      const drainTimes: Record<string, Date | null> = {};
+      let estimatedCompletionAt: Date | null = null;
 
-    for (const engineId of engines.keys()) {
-      depths[engineId] = queue.getQueueDepth(engineId);
-    }
+      for (const [engineId, estimate] of estimates) {
+        depths[engineId] = estimate.queued;
+        drainTimes[engineId] = estimate.estimatedDrainAt;
+        if (estimate.estimatedDrainAt && (!estimatedCompletionAt || estimate.estimatedDrainAt > estimatedCompletionAt)) {
+          estimatedCompletionAt = estimate.estimatedDrainAt;
+        }
+      }
 
-    sendSuccess(res, {
-      totalDepth: queue.getTotalDepth(),
-      processing: queue.isProcessing(),
-      engines: depths,
-    });
+      sendSuccess(res, {
+        totalDepth: await queue.getTotalDepth(),
+        processing: queue.isProcessing(),
+        engines: depths,
+        estimatedDrainAt: drainTimes,
+        estimatedCompletionAt,
+      });
+    } catch (error: unknown) {
+      next(error);
+    }
   });
 
   // GET /api/system/stats — Database stats
@@ -0,0 +1,121 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { getPrisma } from '../config/database.js';
+import { sendSuccess, sendError } from '../utils/response.js';
+import { validateBody } from '../middleware/validator.js';
+import { WEBHOOK_EVENTS, generateWebhookSecret } from '../services/webhooks/WebhookDispatcher.js';
+
+const createWebhookSchema = z.object({
+  name: z.string().min(1).max(100),
+  url: z.string().url(),
+  /** Generated when omitted */
+  secret: z.string().min(16).max(200).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  isActive: z.boolean().default(true),
+});
+
+const updateWebhookSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  url: z.string().url().optional(),
+  secret: z.string().min(16).max(200).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).optional(),
+  isActive: z.boolean().optional(),
+});
+
+/** Everything except the secret — it is only returned once, on create */
+const publicFields = {
+  id: true,
+  name: true,
+  url: true,
+  events: true,
+  isActive: true,
+  lastDeliveryAt: true,
+  lastError: true,
+  consecutiveFailures: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+export function createWebhookRoutes(): Router {
+  const router = Router();
+  // GET /api/webhooks — List webhooks
+  router.get('/', async (_req, res, next) => {
+    try {
+      const webhooks = await getPrisma().webhook.findMany({
+        select: publicFields,
+        orderBy: { createdAt: 'desc' },
+      });
+      sendSuccess(res, webhooks);
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // POST /api/webhooks — Register a webhook (response includes the signing secret)
+  router.post('/', validateBody(createWebhookSchema), async (req, res, next) => {
+    try {
+      const body = req.body as z.infer<typeof createWebhookSchema>;
+      const webhook = await getPrisma().webhook.create({
+        data: { ...body, secret: body.secret ?? generateWebhookSecret() },
+      });
+      sendSuccess(res, webhook, 201);
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // GET /api/webhooks/:id — Get webhook details
+  router.get('/:id', async (req, res, next) => {
+    try {
+      const id = req.params.id as string;
+      const webhook = await getPrisma().webhook.findUnique({ where: { id }, select: publicFields });
+      if (!webhook) {
+        sendError(res, 'Webhook not found', 404);
+        return;
+      }
+      sendSuccess(res, webhook);
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // PATCH /api/webhooks/:id — Update a webhook
+  router.patch('/:id', validateBody(updateWebhookSchema), async (req, res, next) => {
+    try {
+      const id = req.params.id as string;
+      const existing = await getPrisma().webhook.findUnique({ where: { id }, select: { id: true } });
+      if (!existing) {
+        sendError(res, 'Webhook not found', 404);
+        return;
+      }
+
+      const updated = await getPrisma().webhook.update({
+        where: { id },
+        data: req.body as z.infer<typeof updateWebhookSchema>,
+        select: publicFields,
+      });
+      sendSuccess(res, updated);
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  // DELETE /api/webhooks/:id — Delete a webhook
+  router.delete('/:id', async (req, res, next) => {
+    try {
+      const id = req.params.id as string;
+      const existing = await getPrisma().webhook.findUnique({ where: { id }, select: { id: true } });
+      if (!existing) {
+        sendError(res, 'Webhook not found', 404);
+        return;
+      }
+
+      await getPrisma().webhook.delete({ where: { id } });
+      sendSuccess(res, { message: 'Webhook deleted' });
+    } catch (error: unknown) {
+      next(error);
+    }
+  });
+
+  return router;
+}
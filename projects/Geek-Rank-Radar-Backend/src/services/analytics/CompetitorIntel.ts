@@ -0,0 +1,282 @@
+import type { PrismaClient } from '../../generated/prisma/client/index.js';
+import type {
+  CompetitorComparison,
+  CompetitorFilters,
+  MarketOverview,
+  MarketOverviewFilters,
+} from '../../types/analytics.types.js';
+import { findLatestCompletedScans } from './latestScans.js';
+import type { LatestScan } from './latestScans.js';
+import { NOT_FOUND_RANK } from './ScanMetrics.js';
+import { areaContainsPoint, toAreaExtent } from '../../utils/geojson.js';
+
+const DEFAULT_TOP_BUSINESSES = 10;
+
+interface Market {
+  categoryId: string;
+  serviceAreaId: string;
+  serviceAreaName: string;
+  scans: LatestScan[];
+  /** Sum of ATRP per business across the market's scans where it ranked */
+  rankSums: Map<string, { sum: number; count: number }>;
+}
+
+interface RankingTally {
+  /** ATRP values per engineId */
+  engineRanks: Map<string, number[]>;
+  keywords: Set<string>;
+  areas: Set<string>;
+}
+
+/**
+ * Competitor profiling: puts marked competitors side by side with
+ * our own businesses using the latest scan metrics and computed signals.
+ */
+export class CompetitorIntel {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * One row per isMine and isCompetitor business.
+   * Own businesses come first, then competitors by best average rank.
+   */
+  async compareCompetitors(filters: CompetitorFilters = {}): Promise<CompetitorComparison[]> {
+    const scans = await findLatestCompletedScans(this.prisma, filters);
+    const scanById = new Map(scans.map((scan) => [scan.id, scan]));
+
+    const summaries = await this.prisma.scanSummary.findMany({
+      where: {
+        scanId: { in: [...scanById.keys()] },
+        business: { isActive: true, OR: [{ isMine: true }, { isCompetitor: true }] },
+      },
+      select: { scanId: true, businessId: true, atrp: true },
+    });
+
+    const tallies = new Map<string, RankingTally>();
+    for (const summary of summaries) {
+      const scan = scanById.get(summary.scanId);
+      if (!scan) continue;
+
+      let tally = tallies.get(summary.businessId);
+      if (!tally) {
+        tally = { engineRanks: new Map(), keywords: new Set(), areas: new Set() };
+        tallies.set(summary.businessId, tally);
+      }
+
+      const ranks = tally.engineRanks.get(scan.engineId) ?? [];
+      ranks.push(Number(summary.atrp));
+      tally.engineRanks.set(scan.engineId, ranks);
+      tally.keywords.add(scan.keyword);
+      tally.areas.add(scan.serviceAreaId);
+    }
+
+    // Filtered views keep businesses that ranked in scope, plus unranked ones from the category
+    const businessWhere: Record<string, unknown> = {
+      isActive: true,
+      OR: [{ isMine: true }, { isCompetitor: true }],
+    };
+    if (filters.categoryId || filters.serviceAreaId) {
+      businessWhere.AND = [{
+        OR: [
+          { id: { in: [...tallies.keys()] } },
+          ...(filters.categoryId ? [{ categoryId: filters.categoryId }] : []),
+        ],
+      }];
+    }
+
+    const businesses = await this.prisma.business.findMany({
+      where: businessWhere,
+      select: {
+        id: true,
+        name: true,
+        isMine: true,
+        googleRating: true,
+        googleReviewCount: true,
+        bingRating: true,
+        bingReviewCount: true,
+        reviewVelocity: true,
+        rankingMomentum: true,
+      },
+    });
+
+    const rows = businesses.map((business): CompetitorComparison => {
+      const tally = tallies.get(business.id);
+      const avgRank: Record<string, number> = {};
+
+      for (const [engineId, ranks] of tally?.engineRanks ?? []) {
+        const avg = ranks.reduce((acc, rank) => acc + rank, 0) / ranks.length;
+        avgRank[engineId] = Math.round(avg * 10) / 10;
+      }
+
+      const rating = business.googleRating ?? business.bingRating;
+
+      return {
+        businessId: business.id,
+        businessName: business.name,
+        isMine: business.isMine,
+        avgRank,
+        keywordsRanked: tally?.keywords.size ?? 0,
+        areasPresent: tally?.areas.size ?? 0,
+        reviewCount: business.googleReviewCount ?? business.bingReviewCount ?? 0,
+        rating: rating === null ? null : Number(rating),
+        reviewVelocity: business.reviewVelocity,
+        rankingMomentum: business.rankingMomentum,
+      };
+    });
+
+    return rows.sort((a, b) =>
+      Number(b.isMine) - Number(a.isMine) ||
+      bestRank(a) - bestRank(b) ||
+      a.businessName.localeCompare(b.businessName),
+    );
+  }
+
+  /**
+   * Market size per (category, service area): how many businesses rank,
+   * their average rating, and the leaders by average rank. Businesses
+   * located outside the area (by its boundary, else radius) are left out
+   * unless filters.includeOutside is set; businesses with no coordinates
+   * can't be placed, so they count and are tallied as unlocated.
+   *
+   * Leaders are ranked over every scan in the market — scans where a
+   * business was absent count as NOT_FOUND_RANK, so one lucky scan
+   * does not outrank consistent visibility.
+   */
+  async getMarketOverview(filters: MarketOverviewFilters = {}): Promise<MarketOverview[]> {
+    const scans = await findLatestCompletedScans(this.prisma, filters);
+    if (scans.length === 0) return [];
+
+    const markets = new Map<string, Market>();
+    const marketByScanId = new Map<string, Market>();
+
+    for (const scan of scans) {
+      const key = `${scan.categoryId}|${scan.serviceAreaId}`;
+      let market = markets.get(key);
+      if (!market) {
+        market = {
+          categoryId: scan.categoryId,
+          serviceAreaId: scan.serviceAreaId,
+          serviceAreaName: scan.serviceAreaName,
+          scans: [],
+          rankSums: new Map(),
+        };
+        markets.set(key, market);
+      }
+      market.scans.push(scan);
+      marketByScanId.set(scan.id, market);
+    }
+
+    const summaries = await this.prisma.scanSummary.findMany({
+      where: { scanId: { in: [...marketByScanId.keys()] } },
+      select: { scanId: true, businessId: true, atrp: true },
+    });
+
+    for (const summary of summaries) {
+      const market = marketByScanId.get(summary.scanId);
+      if (!market) continue;
+      const entry = market.rankSums.get(summary.businessId) ?? { sum: 0, count: 0 };
+      entry.sum += Number(summary.atrp);
+      entry.count++;
+      market.rankSums.set(summary.businessId, entry);
+    }
+
+    const businessIds = new Set<string>();
+    for (const market of markets.values()) {
+      for (const id of market.rankSums.keys()) businessIds.add(id);
+    }
+
+    const [businesses, categories, areas] = await Promise.all([
+      this.prisma.business.findMany({
+        where: { id: { in: [...businessIds] } },
+        select: {
+          id: true,
+          name: true,
+          googleRating: true,
+          googleReviewCount: true,
+          bingRating: true,
+          bingReviewCount: true,
+          lat: true,
+          lng: true,
+        },
+      }),
+      this.prisma.category.findMany({
+        where: { id: { in: [...new Set(scans.map((s) => s.categoryId))] } },
+        select: { id: true, name: true },
+      }),
+      this.prisma.serviceArea.findMany({
+        where: { id: { in: [...new Set(scans.map((s) => s.serviceAreaId))] } },
+        select: { id: true, centerLat: true, centerLng: true, radiusMiles: true, boundary: true },
+      }),
+    ]);
+
+    const businessById = new Map(businesses.map((b) => [b.id, b]));
+    const categoryNames = new Map(categories.map((c) => [c.id, c.name]));
+    const extents = new Map(areas.map((a) => [a.id, toAreaExtent(a)]));
+    const limit = filters.limit ?? DEFAULT_TOP_BUSINESSES;
+    const includeOutside = filters.includeOutside ?? false;
+
+    const overviews: MarketOverview[] = [];
+
+    for (const market of markets.values()) {
+      const ratings: number[] = [];
+      const ranked: MarketOverview['topBusinesses'] = [];
+      let localBusinesses = 0;
+      let unlocatedBusinesses = 0;
+      const extent = extents.get(market.serviceAreaId);
+
+      for (const [businessId, { sum, count }] of market.rankSums) {
+        const business = businessById.get(businessId);
+        if (!business) continue;
+
+        // Checked against this market's area, not serviceAreaId — overlapping areas each count the business
+        const inArea = business.lat === null || business.lng === null || !extent
+          ? null
+          : areaContainsPoint(extent, Number(business.lat), Number(business.lng));
+        if (inArea === null) unlocatedBusinesses++;
+        if (inArea === true) localBusinesses++;
+        if (inArea === false && !includeOutside) continue;
+
+        const rating = business.googleRating ?? business.bingRating;
+        if (rating !== null) ratings.push(Number(rating));
+
+        const missingScans = market.scans.length - count;
+        const avgRank = (sum + missingScans * NOT_FOUND_RANK) / market.scans.length;
+
+        ranked.push({
+          id: business.id,
+          name: business.name,
+          avgRank: Math.round(avgRank * 10) / 10,
+          rating: rating === null ? null : Number(rating),
+          reviewCount: business.googleReviewCount ?? business.bingReviewCount ?? 0,
+          inArea,
+        });
+      }
+
+      const avgRating = ratings.length > 0
+        ? Math.round((ratings.reduce((acc, r) => acc + r, 0) / ratings.length) * 100) / 100
+        : null;
+
+      overviews.push({
+        categoryId: market.categoryId,
+        categoryName: categoryNames.get(market.categoryId) ?? market.categoryId,
+        serviceAreaId: market.serviceAreaId,
+        serviceAreaName: market.serviceAreaName,
+        scansAnalyzed: market.scans.length,
+        totalBusinesses: ranked.length,
+        localBusinesses,
+        unlocatedBusinesses,
+        avgRating,
+        topBusinesses: ranked.sort((a, b) => a.avgRank - b.avgRank).slice(0, limit),
+      });
+    }
+
+    return overviews.sort((a, b) =>
+      a.categoryName.localeCompare(b.categoryName) ||
+      a.serviceAreaName.localeCompare(b.serviceAreaName),
+    );
+  }
+}
+
+function bestRank(row: CompetitorComparison): number {
+  const ranks = Object.values(row.avgRank);
+  return ranks.length > 0 ? Math.min(...ranks) : Infinity;
+}
@@ -0,0 +1,295 @@
+import type { PrismaClient } from '../../generated/prisma/client/index.js';
+import type {
+  GapAnalysisResult,
+  GapAnalysisFilters,
+  OpportunityLevel,
+} from '../../types/analytics.types.js';
+import { ENGINE_CONFIGS } from '../../config/engines.js';
+import { findLatestCompletedScans } from './latestScans.js';
+
+/** Minimum ATRP difference that counts as a gap (matches "moved 3+ positions") */
+const MIN_RANK_GAP = 3;
+
+const OPPORTUNITY_ORDER: Record<OpportunityLevel, number> = { high: 0, medium: 1, low: 2 };
+
+interface RankedCompetitor {
+  name: string;
+  rank: number;
+}
+
+/** Latest completed scan for one (service area, keyword, engine) combination */
+interface ScanSnapshot {
+  scanId: string;
+  categoryId: string;
+  serviceArea: string;
+  keyword: string;
+  engineId: string;
+  /** ATRP per isMine business found in the scan */
+  mine: Map<string, number>;
+  /** Best-ranked isCompetitor business in the scan */
+  topCompetitor: RankedCompetitor | null;
+}
+
+interface SnapshotRank {
+  snapshot: ScanSnapshot;
+  rank: number | null;
+}
+
+/**
+ * Finds geographic, keyword and cross-engine gaps for our own (isMine)
+ * businesses by comparing the latest ScanSummary metrics per
+ * service area, keyword and engine.
+ */
+export class GapAnalyzer {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async analyze(filters: GapAnalysisFilters = {}): Promise<GapAnalysisResult[]> {
+    const businessWhere: Record<string, unknown> = { isMine: true, isActive: true };
+    if (filters.businessId) businessWhere.id = filters.businessId;
+
+    const [businesses, snapshots] = await Promise.all([
+      this.prisma.business.findMany({
+        where: businessWhere,
+        select: { id: true, name: true, categoryId: true },
+      }),
+      this.loadSnapshots(filters.categoryId),
+    ]);
+
+    const results: GapAnalysisResult[] = [];
+
+    for (const business of businesses) {
+      // Compare only keywords from the business's own category or ones it already ranks for
+      const categories = new Set<string>();
+      if (business.categoryId) categories.add(business.categoryId);
+      for (const snapshot of snapshots) {
+        if (snapshot.mine.has(business.id)) categories.add(snapshot.categoryId);
+      }
+
+      const relevant: SnapshotRank[] = snapshots
+        .filter((snapshot) => categories.has(snapshot.categoryId))
+        .map((snapshot) => ({ snapshot, rank: snapshot.mine.get(business.id) ?? null }));
+
+      results.push(
+        ...this.findGeographicGaps(business, relevant),
+        ...this.findKeywordGaps(business, relevant),
+        ...this.findCrossEngineGaps(business, relevant),
+      );
+    }
+
+    return results
+      .filter((r) => !filters.type || r.type === filters.type)
+      .filter((r) => !filters.opportunity || r.opportunity === filters.opportunity)
+      .sort((a, b) =>
+        OPPORTUNITY_ORDER[a.opportunity] - OPPORTUNITY_ORDER[b.opportunity] ||
+        a.businessName.localeCompare(b.businessName),
+      );
+  }
+
+  /**
+   * Same keyword + engine, different service areas:
+   * "#2 in Delray Beach but #11 in Boca Raton".
+   */
+  private findGeographicGaps(
+    business: { id: string; name: string },
+    ranks: SnapshotRank[],
+  ): GapAnalysisResult[] {
+    const results: GapAnalysisResult[] = [];
+
+    for (const group of groupBy(ranks, (r) => `${r.snapshot.keyword}|${r.snapshot.engineId}`)) {
+      const best = bestOf(group);
+      if (!best || best.rank === null) continue;
+
+      for (const entry of group) {
+        if (entry === best || !isGap(entry.rank, best.rank)) continue;
+
+        const { snapshot } = entry;
+        results.push({
+          businessId: business.id,
+          businessName: business.name,
+          type: 'geographic',
+          description:
+            `${business.name} ranks ${formatRank(best.rank)} in ${best.snapshot.serviceArea} but ` +
+            `${formatRank(entry.rank)} in ${snapshot.serviceArea} for "${snapshot.keyword}" on ${engineName(snapshot.engineId)}`,
+          currentRank: entry.rank,
+          competitorRank: snapshot.topCompetitor?.rank ?? null,
+          serviceArea: snapshot.serviceArea,
+          keyword: snapshot.keyword,
+          engine: snapshot.engineId,
+          opportunity: rateOpportunity(entry.rank, best.rank),
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Keyword + engine where a competitor ranks but we are not found in any area.
+   */
+  private findKeywordGaps(
+    business: { id: string; name: string },
+    ranks: SnapshotRank[],
+  ): GapAnalysisResult[] {
+    const results: GapAnalysisResult[] = [];
+
+    for (const group of groupBy(ranks, (r) => `${r.snapshot.keyword}|${r.snapshot.engineId}`)) {
+      if (group.some((entry) => entry.rank !== null)) continue;
+
+      let leader: ScanSnapshot | undefined;
+      let leaderRank = Infinity;
+      for (const { snapshot } of group) {
+        if (snapshot.topCompetitor && snapshot.topCompetitor.rank < leaderRank) {
+          leader = snapshot;
+          leaderRank = snapshot.topCompetitor.rank;
+        }
+      }
+      if (!leader?.topCompetitor) continue;
+
+      results.push({
+        businessId: business.id,
+        businessName: business.name,
+        type: 'keyword',
+        description:
+          `${leader.topCompetitor.name} ranks ${formatRank(leader.topCompetitor.rank)} for "${leader.keyword}" ` +
+          `in ${leader.serviceArea} on ${engineName(leader.engineId)} — ${business.name} is not found`,
+        currentRank: null,
+        competitorRank: leader.topCompetitor.rank,
+        serviceArea: leader.serviceArea,
+        keyword: leader.keyword,
+        engine: leader.engineId,
+        opportunity: rateOpportunity(null, leader.topCompetitor.rank),
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Same service area + keyword, different engines:
+   * "#1 on Bing but #9 on Google".
+   */
+  private findCrossEngineGaps(
+    business: { id: string; name: string },
+    ranks: SnapshotRank[],
+  ): GapAnalysisResult[] {
+    const results: GapAnalysisResult[] = [];
+
+    for (const group of groupBy(ranks, (r) => `${r.snapshot.serviceArea}|${r.snapshot.keyword}`)) {
+      const best = bestOf(group);
+      if (!best || best.rank === null) continue;
+
+      for (const entry of group) {
+        if (entry === best || !isGap(entry.rank, best.rank)) continue;
+
+        const { snapshot } = entry;
+        results.push({
+          businessId: business.id,
+          businessName: business.name,
+          type: 'cross_engine',
+          description:
+            `${business.name} ranks ${formatRank(best.rank)} on ${engineName(best.snapshot.engineId)} but ` +
+            `${formatRank(entry.rank)} on ${engineName(snapshot.engineId)} for "${snapshot.keyword}" in ${snapshot.serviceArea}`,
+          currentRank: entry.rank,
+          competitorRank: snapshot.topCompetitor?.rank ?? null,
+          serviceArea: snapshot.serviceArea,
+          keyword: snapshot.keyword,
+          engine: snapshot.engineId,
+          opportunity: rateOpportunity(entry.rank, best.rank),
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Latest completed scan per (service area, keyword, engine), with the
+   * ScanSummary rows for flagged (mine/competitor) businesses.
+   */
+  private async loadSnapshots(categoryId?: string): Promise<ScanSnapshot[]> {
+    const scans = await findLatestCompletedScans(this.prisma, { categoryId });
+
+    const byScanId = new Map<string, ScanSnapshot>(scans.map((scan) => [scan.id, {
+      scanId: scan.id,
+      categoryId: scan.categoryId,
+      serviceArea: scan.serviceAreaName,
+      keyword: scan.keyword,
+      engineId: scan.engineId,
+      mine: new Map(),
+      topCompetitor: null,
+    }]));
+
+    const summaries = await this.prisma.scanSummary.findMany({
+      where: {
+        scanId: { in: [...byScanId.keys()] },
+        business: { OR: [{ isMine: true }, { isCompetitor: true }] },
+      },
+      select: {
+        scanId: true,
+        businessId: true,
+        atrp: true,
+        business: { select: { name: true, isMine: true, isCompetitor: true } },
+      },
+    });
+
+    for (const summary of summaries) {
+      const snapshot = byScanId.get(summary.scanId);
+      if (!snapshot) continue;
+      const rank = Number(summary.atrp);
+
+      if (summary.business.isMine) {
+        snapshot.mine.set(summary.businessId, rank);
+      } else if (!snapshot.topCompetitor || rank < snapshot.topCompetitor.rank) {
+        snapshot.topCompetitor = { name: summary.business.name, rank };
+      }
+    }
+
+    return [...byScanId.values()];
+  }
+}
+
+function groupBy<T>(items: T[], keyOf: (item: T) => string): T[][] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+  return [...groups.values()];
+}
+
+function bestOf(group: SnapshotRank[]): SnapshotRank | undefined {
+  let best: SnapshotRank | undefined;
+  for (const entry of group) {
+    if (entry.rank !== null && (best?.rank == null || entry.rank < best.rank)) {
+      best = entry;
+    }
+  }
+  return best;
+}
+
+function isGap(rank: number | null, benchmark: number): boolean {
+  return rank === null || rank - benchmark >= MIN_RANK_GAP;
+}
+
+/**
+ * High: benchmark is top 3 and we are outside the top 10 (or missing).
+ * Medium: 5+ positions behind the benchmark.
+ */
+function rateOpportunity(currentRank: number | null, benchmarkRank: number): OpportunityLevel {
+  if (benchmarkRank <= 3 && (currentRank === null || currentRank > 10)) return 'high';
+  if (currentRank === null || currentRank - benchmarkRank >= 5) return 'medium';
+  return 'low';
+}
+
+function formatRank(rank: number | null): string {
+  return rank === null ? 'not found' : `#${Math.round(rank)}`;
+}
+
+function engineName(engineId: string): string {
+  return ENGINE_CONFIGS[engineId]?.engineName ?? engineId;
+}
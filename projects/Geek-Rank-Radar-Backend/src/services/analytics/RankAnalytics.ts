@@ -0,0 +1,343 @@
+import type { PrismaClient } from '../../generated/prisma/client/index.js';
+import type {
+  RankTrendPoint,
+  RankTrendFilters,
+  GeoHeatmap,
+  GeoHeatmapCell,
+  GeoHeatmapFilters,
+  CrossEngineComparison,
+  CrossEngineFilters,
+  CrossEngineRank,
+} from '../../types/analytics.types.js';
+import type { GridShape } from '../../types/scan.types.js';
+import { ENGINE_CONFIGS } from '../../config/engines.js';
+import { NOT_FOUND_RANK, type ScanMetrics } from './ScanMetrics.js';
+import { AppError } from '../../utils/errors.js';
+
+/** A non-Google engine at or above this avg position "ranks well" */
+const QUICK_WIN_MAX_RANK = 3;
+
+/** Google is "not ranking well" when its best avg position is worse than this (off page one) */
+const QUICK_WIN_GOOGLE_MIN_RANK = 10;
+
+interface TrendBucket {
+  date: string;
+  engineId: string;
+  keyword: string;
+  serviceArea: string;
+  /** Best position per scan point — a business can appear more than once at a point */
+  positions: Map<string, number>;
+}
+
+/** YYYY-MM-DD with no time part */
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Rank analytics over completed scans.
+ * Aggregates ScanRanking → ScanPoint → Scan rows into chart-ready series.
+ */
+export class RankAnalytics {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly metrics: ScanMetrics,
+  ) {}
+
+  /**
+   * Rank position over time for a business.
+   * One point per (scan date, engine, keyword, service area) with
+   * avg/best/worst position across the grid points where it ranked.
+   */
+  async getRankTrends(filters: RankTrendFilters): Promise<RankTrendPoint[]> {
+    const scanWhere: Record<string, unknown> = { status: 'completed' };
+    if (filters.keyword) scanWhere.keyword = filters.keyword;
+    if (filters.serviceAreaId) scanWhere.serviceAreaId = filters.serviceAreaId;
+    if (filters.engineId) scanWhere.searchEngine = filters.engineId;
+
+    const createdAt: Record<string, Date> = {};
+    if (filters.startDate) createdAt.gte = new Date(filters.startDate);
+    if (filters.endDate) {
+      // A date-only endDate covers that whole day (UTC), not just its midnight
+      if (DATE_ONLY.test(filters.endDate)) {
+        const dayAfter = new Date(filters.endDate);
+        dayAfter.setUTCDate(dayAfter.getUTCDate() + 1);
+        createdAt.lt = dayAfter;
+      } else {
+        createdAt.lte = new Date(filters.endDate);
+      }
+    }
+    if (Object.keys(createdAt).length > 0) scanWhere.createdAt = createdAt;
+
+    const rankings = await this.prisma.scanRanking.findMany({
+      where: {
+        businessId: filters.businessId,
+        scanPoint: { scan: scanWhere },
+      },
+      select: {
+        rankPosition: true,
+        scanPointId: true,
+        scanPoint: {
+          select: {
+            scan: {
+              select: {
+                keyword: true,
+                searchEngine: true,
+                createdAt: true,
+                completedAt: true,
+                serviceArea: { select: { name: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const buckets = new Map<string, TrendBucket>();
+
+    for (const ranking of rankings) {
+      const scan = ranking.scanPoint.scan;
+      const date = (scan.completedAt ?? scan.createdAt).toISOString().slice(0, 10);
+      const key = `${date}|${scan.searchEngine}|${scan.keyword}|${scan.serviceArea.name}`;
+
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        bucket = {
+          date,
+          engineId: scan.searchEngine,
+          keyword: scan.keyword,
+          serviceArea: scan.serviceArea.name,
+          positions: new Map(),
+        };
+        buckets.set(key, bucket);
+      }
+
+      const existing = bucket.positions.get(ranking.scanPointId);
+      if (existing === undefined || ranking.rankPosition < existing) {
+        bucket.positions.set(ranking.scanPointId, ranking.rankPosition);
+      }
+    }
+
+    const points: RankTrendPoint[] = [];
+
+    for (const bucket of buckets.values()) {
+      const positions = [...bucket.positions.values()];
+      const sum = positions.reduce((acc, pos) => acc + pos, 0);
+
+      points.push({
+        date: bucket.date,
+        engineId: bucket.engineId,
+        keyword: bucket.keyword,
+        serviceArea: bucket.serviceArea,
+        avgPosition: Math.round((sum / positions.length) * 10) / 10,
+        bestPosition: Math.min(...positions),
+        worstPosition: Math.max(...positions),
+      });
+    }
+
+    return points.sort((a, b) =>
+      a.date.localeCompare(b.date) ||
+      a.engineId.localeCompare(b.engineId) ||
+      a.keyword.localeCompare(b.keyword) ||
+      a.serviceArea.localeCompare(b.serviceArea),
+    );
+  }
+
+  /**
+   * Grid heatmap for a business from a single scan.
+   * Uses the given scanId, otherwise the latest completed scan for the
+   * keyword/area/engine. Returns null if no matching scan exists, and
+   * throws a 409 AppError when the given scan is not completed or is for
+   * a different keyword/area/engine.
+   *
+   * Each cell holds the target business's position at that point and
+   * the name of the business ranked #1 there.
+   */
+  async getGeoHeatmap(filters: GeoHeatmapFilters): Promise<GeoHeatmap | null> {
+    const scan = filters.scanId
+      ? await this.prisma.scan.findUnique({ where: { id: filters.scanId } })
+      : await this.prisma.scan.findFirst({
+        where: {
+          keyword: filters.keyword,
+          serviceAreaId: filters.serviceAreaId,
+          searchEngine: filters.engineId,
+          status: 'completed',
+        },
+        orderBy: { completedAt: 'desc' },
+      });
+
+    if (!scan) return null;
+
+    // An explicit scanId must still be a completed scan for the requested keyword/area/engine
+    if (
+      scan.keyword !== filters.keyword ||
+      scan.serviceAreaId !== filters.serviceAreaId ||
+      scan.searchEngine !== filters.engineId
+    ) {
+      throw new AppError(`Scan ${scan.id} is not for this keyword, area and engine`, 409, 'SCAN_FILTER_MISMATCH');
+    }
+    if (scan.status !== 'completed') {
+      throw new AppError(`Scan ${scan.id} is ${scan.status}, not completed`, 409, 'SCAN_NOT_COMPLETED');
+    }
+
+    // Only pull the two rankings each cell needs: the target and the #1 result
+    const points = await this.prisma.scanPoint.findMany({
+      where: { scanId: scan.id },
+      select: {
+        gridRow: true,
+        gridCol: true,
+        lat: true,
+        lng: true,
+        rankings: {
+          where: {
+            OR: [{ businessId: filters.businessId }, { rankPosition: 1 }],
+          },
+          select: {
+            businessId: true,
+            rankPosition: true,
+            business: { select: { name: true } },
+          },
+          orderBy: { rankPosition: 'asc' },
+        },
+      },
+      orderBy: [{ gridRow: 'asc' }, { gridCol: 'asc' }],
+    });
+
+    // Circle/polygon grids and water exclusion leave lattice cells without a point
+    const cells: Array<Array<GeoHeatmapCell | null>> = Array.from(
+      { length: scan.gridRows },
+      () => new Array<GeoHeatmapCell | null>(scan.gridCols).fill(null),
+    );
+
+    for (const point of points) {
+      const target = point.rankings.find((r) => r.businessId === filters.businessId);
+      const top = point.rankings.find((r) => r.rankPosition === 1);
+
+      cells[point.gridRow][point.gridCol] = {
+        row: point.gridRow,
+        col: point.gridCol,
+        lat: Number(point.lat),
+        lng: Number(point.lng),
+        rankPosition: target?.rankPosition ?? null,
+        businessName: top?.business.name ?? null,
+      };
+    }
+
+    return {
+      scanId: scan.id,
+      businessId: filters.businessId,
+      keyword: scan.keyword,
+      engineId: scan.searchEngine,
+      gridSize: scan.gridSize,
+      gridRows: scan.gridRows,
+      gridCols: scan.gridCols,
+      gridShape: scan.gridShape as GridShape,
+      scannedAt: scan.completedAt ?? scan.createdAt,
+      cells,
+    };
+  }
+
+  /**
+   * Latest avg position for a business on each engine, side by side.
+   * Deltas are relative to the best Google engine. A non-Google engine is a
+   * quick win when it ranks in the top QUICK_WIN_MAX_RANK while Google is
+   * off page one — the content already works, Google just hasn't caught up.
+   *
+   * Returns null if the business does not exist.
+   */
+  async getCrossEngineComparison(
+    filters: CrossEngineFilters,
+    engineIds: string[],
+  ): Promise<CrossEngineComparison | null> {
+    const business = await this.prisma.business.findUnique({
+      where: { id: filters.businessId },
+      select: { id: true, name: true },
+    });
+    if (!business) return null;
+
+    const engines: CrossEngineRank[] = await Promise.all(engineIds.map(async (engineId) => {
+      const engineName = ENGINE_CONFIGS[engineId]?.engineName ?? engineId;
+
+      const scan = await this.prisma.scan.findFirst({
+        where: {
+          keyword: filters.keyword,
+          serviceAreaId: filters.serviceAreaId,
+          searchEngine: engineId,
+          status: 'completed',
+        },
+        orderBy: { completedAt: 'desc' },
+        select: { id: true, completedAt: true, createdAt: true, pointsCompleted: true },
+      });
+
+      if (!scan) {
+        return {
+          engineId,
+          engineName,
+          scanId: null,
+          scannedAt: null,
+          avgPosition: null,
+          pointsFound: 0,
+          pointsTotal: 0,
+          deltaVsGoogle: null,
+          quickWin: false,
+        };
+      }
+
+      const findSummary = () => this.prisma.scanSummary.findUnique({
+        where: { scanId_businessId: { scanId: scan.id, businessId: business.id } },
+        select: { atrp: true, pointsFound: true, pointsTotal: true },
+      });
+
+      // Scans completed before summaries existed are summarized on first request,
+      // so a business that ranked is not reported as NOT_FOUND_RANK
+      let summary = await findSummary();
+      if (
+        !summary &&
+        await this.prisma.scanSummary.count({ where: { scanId: scan.id } }) === 0 &&
+        await this.metrics.summarizeScan(scan.id) > 0
+      ) {
+        summary = await findSummary();
+      }
+
+      return {
+        engineId,
+        engineName,
+        scanId: scan.id,
+        scannedAt: scan.completedAt ?? scan.createdAt,
+        avgPosition: summary ? Number(summary.atrp) : NOT_FOUND_RANK,
+        pointsFound: summary?.pointsFound ?? 0,
+        pointsTotal: summary?.pointsTotal ?? scan.pointsCompleted,
+        deltaVsGoogle: null,
+        quickWin: false,
+      };
+    }));
+
+    let googleBaseline: number | null = null;
+    for (const entry of engines) {
+      if (!isGoogleEngine(entry.engineId) || entry.avgPosition === null) continue;
+      if (googleBaseline === null || entry.avgPosition < googleBaseline) {
+        googleBaseline = entry.avgPosition;
+      }
+    }
+
+    for (const entry of engines) {
+      if (googleBaseline === null || entry.avgPosition === null) continue;
+      entry.deltaVsGoogle = Math.round((googleBaseline - entry.avgPosition) * 100) / 100;
+      entry.quickWin = !isGoogleEngine(entry.engineId) &&
+        entry.avgPosition <= QUICK_WIN_MAX_RANK &&
+        googleBaseline > QUICK_WIN_GOOGLE_MIN_RANK;
+    }
+
+    return {
+      businessId: business.id,
+      businessName: business.name,
+      keyword: filters.keyword,
+      serviceAreaId: filters.serviceAreaId,
+      googleBaseline,
+      quickWin: engines.some((entry) => entry.quickWin),
+      engines: engines.sort((a, b) => a.engineId.localeCompare(b.engineId)),
+    };
+  }
+}
+
+function isGoogleEngine(engineId: string): boolean {
+  return ENGINE_CONFIGS[engineId]?.reputationGroup === 'google';
+}
@@ -0,0 +1,104 @@
+import type { PrismaClient, RankChangeEvent } from '../../generated/prisma/client/index.js';
+import type { RankChangeType } from '../../types/analytics.types.js';
+import { NOT_FOUND_RANK } from './ScanMetrics.js';
+
+/** ATRP movement (positions) that counts as significant */
+const MIN_RANK_CHANGE = 3;
+
+/** An ATRP at or above this is "in the top 3" */
+const TOP_N = 3;
+
+/**
+ * Compares a completed scan against the previous comparable scan
+ * (same service area, keyword and engine) and records a RankChangeEvent
+ * for every own or competitor business that moved significantly.
+ */
+export class RankChangeDetector {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Detect rank changes for a scan. Idempotent — one event per business per scan.
+   * Returns the newly recorded events.
+   */
+  async detect(scanId: string): Promise<RankChangeEvent[]> {
+    const scan = await this.prisma.scan.findUnique({
+      where: { id: scanId },
+      select: { id: true, serviceAreaId: true, keyword: true, searchEngine: true, completedAt: true },
+    });
+    if (!scan?.completedAt) return [];
+
+    const previous = await this.prisma.scan.findFirst({
+      where: {
+        id: { not: scan.id },
+        serviceAreaId: scan.serviceAreaId,
+        keyword: scan.keyword,
+        searchEngine: scan.searchEngine,
+        status: 'completed',
+        completedAt: { lt: scan.completedAt },
+      },
+      orderBy: { completedAt: 'desc' },
+      select: { id: true },
+    });
+    if (!previous) return [];
+
+    const summaries = await this.prisma.scanSummary.findMany({
+      where: {
+        scanId: { in: [scan.id, previous.id] },
+        business: { OR: [{ isMine: true }, { isCompetitor: true }] },
+      },
+      select: { scanId: true, businessId: true, atrp: true },
+    });
+
+    const ranks = new Map<string, { previous: number; current: number }>();
+    for (const summary of summaries) {
+      const entry = ranks.get(summary.businessId) ?? { previous: NOT_FOUND_RANK, current: NOT_FOUND_RANK };
+      if (summary.scanId === scan.id) {
+        entry.current = Number(summary.atrp);
+      } else {
+        entry.previous = Number(summary.atrp);
+      }
+      ranks.set(summary.businessId, entry);
+    }
+
+    const events = [];
+    for (const [businessId, { previous: previousRank, current: currentRank }] of ranks) {
+      const changeType = classifyChange(previousRank, currentRank);
+      if (!changeType) continue;
+
+      events.push({
+        businessId,
+        scanId: scan.id,
+        previousScanId: previous.id,
+        serviceAreaId: scan.serviceAreaId,
+        keyword: scan.keyword,
+        searchEngine: scan.searchEngine,
+        changeType,
+        previousRank,
+        currentRank,
+      });
+    }
+
+    if (events.length === 0) return [];
+
+    return this.prisma.rankChangeEvent.createManyAndReturn({
+      data: events,
+      skipDuplicates: true,
+    });
+  }
+}
+
+/**
+ * Crossing the top-3 boundary outranks a plain move — it is the change
+ * that shows up in the local pack.
+ */
+function classifyChange(previousRank: number, currentRank: number): RankChangeType | null {
+  const wasTop = previousRank <= TOP_N;
+  const isTop = currentRank <= TOP_N;
+  if (!wasTop && isTop) return 'entered_top3';
+  if (wasTop && !isTop) return 'left_top3';
+
+  const change = previousRank - currentRank;
+  if (change >= MIN_RANK_CHANGE) return 'improved';
+  if (change <= -MIN_RANK_CHANGE) return 'dropped';
+  return null;
+}
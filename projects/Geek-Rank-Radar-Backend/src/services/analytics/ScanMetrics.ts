@@ -0,0 +1,109 @@
+import type { PrismaClient } from '../../generated/prisma/client/index.js';
+import type { ScanBusinessMetrics } from '../../types/analytics.types.js';
+
+/** Rank assigned to grid points where a business was not found (ATRP penalty) */
+export const NOT_FOUND_RANK = 21;
+
+/** Positions at or above this count toward Share of Local Voice */
+const SOLV_TOP_N = 3;
+
+interface BusinessTally {
+  /** Best position per scan point */
+  positions: Map<string, number>;
+}
+
+/**
+ * Headline visibility metrics for a completed scan:
+ * SoLV, ATRP and ARP for every business that ranked at any grid point.
+ * Results are stored in ScanSummary so they are computed once per scan.
+ */
+export class ScanMetrics {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Compute and store metrics for a scan. Idempotent — replaces any
+   * existing summary rows. Returns the number of businesses summarized.
+   */
+  async summarizeScan(scanId: string): Promise<number> {
+    const points = await this.prisma.scanPoint.findMany({
+      where: { scanId, status: 'completed' },
+      select: {
+        id: true,
+        rankings: { select: { businessId: true, rankPosition: true } },
+      },
+    });
+
+    const pointsTotal = points.length;
+    const tallies = new Map<string, BusinessTally>();
+
+    for (const point of points) {
+      for (const ranking of point.rankings) {
+        let tally = tallies.get(ranking.businessId);
+        if (!tally) {
+          tally = { positions: new Map() };
+          tallies.set(ranking.businessId, tally);
+        }
+        const existing = tally.positions.get(point.id);
+        if (existing === undefined || ranking.rankPosition < existing) {
+          tally.positions.set(point.id, ranking.rankPosition);
+        }
+      }
+    }
+
+    const rows = [...tallies.entries()].map(([businessId, tally]) => {
+      const positions = [...tally.positions.values()];
+      const pointsFound = positions.length;
+      const pointsTop3 = positions.filter((pos) => pos <= SOLV_TOP_N).length;
+      const foundSum = positions.reduce((acc, pos) => acc + pos, 0);
+      const missingPenalty = (pointsTotal - pointsFound) * NOT_FOUND_RANK;
+
+      return {
+        scanId,
+        businessId,
+        pointsTotal,
+        pointsFound,
+        pointsTop3,
+        solv: round2((pointsTop3 / pointsTotal) * 100),
+        atrp: round2((foundSum + missingPenalty) / pointsTotal),
+        arp: round2(foundSum / pointsFound),
+      };
+    });
+
+    await this.prisma.$transaction([
+      this.prisma.scanSummary.deleteMany({ where: { scanId } }),
+      this.prisma.scanSummary.createMany({ data: rows }),
+    ]);
+
+    return rows.length;
+  }
+
+  /**
+   * Stored metrics for a scan, best visibility first.
+   */
+  async getScanMetrics(scanId: string): Promise<ScanBusinessMetrics[]> {
+    const summaries = await this.prisma.scanSummary.findMany({
+      where: { scanId },
+      include: {
+        business: { select: { name: true, isMine: true, isCompetitor: true } },
+      },
+      orderBy: [{ solv: 'desc' }, { atrp: 'asc' }],
+    });
+
+    return summaries.map((s) => ({
+      businessId: s.businessId,
+      businessName: s.business.name,
+      isMine: s.business.isMine,
+      isCompetitor: s.business.isCompetitor,
+      pointsTotal: s.pointsTotal,
+      pointsFound: s.pointsFound,
+      pointsTop3: s.pointsTop3,
+      solv: Number(s.solv),
+      atrp: Number(s.atrp),
+      arp: Number(s.arp),
+    }));
+  }
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
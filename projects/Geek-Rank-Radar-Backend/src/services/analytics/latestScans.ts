@@ -0,0 +1,68 @@
+import type { PrismaClient } from '../../generated/prisma/client/index.js';
+
+/** Default window for "current" rankings used by comparison analytics */
+export const DEFAULT_LOOKBACK_DAYS = 90;
+
+export interface LatestScan {
+  id: string;
+  serviceAreaId: string;
+  serviceAreaName: string;
+  categoryId: string;
+  keyword: string;
+  engineId: string;
+  completedAt: Date | null;
+}
+
+export interface LatestScanFilters {
+  categoryId?: string;
+  serviceAreaId?: string;
+  lookbackDays?: number;
+}
+
+/**
+ * Latest completed scan for each (service area, keyword, engine) combination
+ * within the lookback window. Older repeats of the same combination are dropped
+ * so comparisons use current rankings only.
+ */
+export async function findLatestCompletedScans(
+  prisma: PrismaClient,
+  filters: LatestScanFilters = {},
+): Promise<LatestScan[]> {
+  const lookbackDays = filters.lookbackDays ?? DEFAULT_LOOKBACK_DAYS;
+  const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000);
+
+  const where: Record<string, unknown> = { status: 'completed', completedAt: { gte: since } };
+  if (filters.categoryId) where.categoryId = filters.categoryId;
+  if (filters.serviceAreaId) where.serviceAreaId = filters.serviceAreaId;
+
+  const scans = await prisma.scan.findMany({
+    where,
+    select: {
+      id: true,
+      serviceAreaId: true,
+      categoryId: true,
+      keyword: true,
+      searchEngine: true,
+      completedAt: true,
+      serviceArea: { select: { name: true } },
+    },
+    orderBy: { completedAt: 'desc' },
+  });
+
+  const latest = new Map<string, LatestScan>();
+  for (const scan of scans) {
+    const key = `${scan.serviceAreaId}|${scan.keyword}|${scan.searchEngine}`;
+    if (latest.has(key)) continue;
+    latest.set(key, {
+      id: scan.id,
+      serviceAreaId: scan.serviceAreaId,
+      serviceAreaName: scan.serviceArea.name,
+      categoryId: scan.categoryId,
+      keyword: scan.keyword,
+      engineId: scan.searchEngine,
+      completedAt: scan.completedAt,
+    });
+  }
+
+  return [...latest.values()];
+}
@@ -5,6 +5,8 @@ import { normalizeName, normalizeDomain, levenshteinDistance } from '../../utils
 import { normalizePhone } from '../../utils/phone.js';
 import { haversineDistance } from '../../utils/geo.js';
 import { logger } from '../../config/logger.js';
+import type { ServiceAreaAssigner } from './ServiceAreaAssigner.js';
+import type { OfflineGeocoder } from '../geocoding/OfflineGeocoder.js';
 
 /**
  * Business entity resolution and deduplication.
@@ -12,7 +14,11 @@ import { logger } from '../../config/logger.js';
  * to prevent duplicate entries.
  */
 export class BusinessMatcher {
-  constructor(private readonly prisma: PrismaClient) {}
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly areaAssigner: ServiceAreaAssigner,
+    private readonly geocoder: OfflineGeocoder,
+  ) {}
 
   /**
    * Find or create a business entity from a parsed search result.
@@ -31,7 +37,7 @@ export class BusinessMatcher {
         where: { googlePlaceId: parsed.googlePlaceId },
       });
       if (existing) {
-        await this.updateLastSeen(existing.id, parsed, engineId);
+        await this.updateLastSeen(existing, parsed, engineId);
         return { businessId: existing.id, confidence: 100, matchType: 'google_place_id' };
       }
     }
@@ -43,7 +49,7 @@ export class BusinessMatcher {
         where: { phone: normalizedPhone },
       });
       if (phoneMatch) {
-        await this.updateLastSeen(phoneMatch.id, parsed, engineId);
+        await this.updateLastSeen(phoneMatch, parsed, engineId);
         return { businessId: phoneMatch.id, confidence: 90, matchType: 'phone' };
       }
     }
@@ -63,7 +69,7 @@ export class BusinessMatcher {
           );
           // 50 meters ≈ 0.031 miles
           if (distance < 0.031) {
-            await this.updateLastSeen(candidate.id, parsed, engineId);
+            await this.updateLastSeen(candidate, parsed, engineId);
             return { businessId: candidate.id, confidence: 95, matchType: 'normalized_name_location' };
           }
         }
@@ -79,7 +85,7 @@ export class BusinessMatcher {
       for (const candidate of phoneMatches) {
         const candidateNormalized = candidate.normalizedName;
         if (candidateNormalized && levenshteinDistance(normalized, candidateNormalized) <= 3) {
-          await this.updateLastSeen(candidate.id, parsed, engineId);
+          await this.updateLastSeen(candidate, parsed, engineId);
           return { businessId: candidate.id, confidence: 85, matchType: 'fuzzy_name_phone' };
         }
       }
@@ -97,7 +103,7 @@ export class BusinessMatcher {
       for (const candidate of domainMatches) {
         const candidateDomain = normalizeDomain(candidate.website);
         if (candidateDomain === parsedDomain) {
-          await this.updateLastSeen(candidate.id, parsed, engineId);
+          await this.updateLastSeen(candidate, parsed, engineId);
           return { businessId: candidate.id, confidence: 80, matchType: 'website_domain' };
         }
       }
@@ -119,6 +125,18 @@ export class BusinessMatcher {
   ): Promise<Business> {
     const isBing = engineId.startsWith('bing');
 
+    // No coordinates from the parser — fall back to the ZIP's centroid
+    let lat = parsed.lat ?? null;
+    let lng = parsed.lng ?? null;
+    if ((lat === null || lng === null) && parsed.zip) {
+      const centroid = await this.geocoder.geocodeZip(parsed.zip);
+      lat = centroid?.lat ?? null;
+      lng = centroid?.lng ?? null;
+    }
+    const serviceAreaId = lat !== null && lng !== null
+      ? await this.areaAssigner.findAreaId(lat, lng)
+      : null;
+
     return this.prisma.business.create({
       data: {
         name: parsed.name,
@@ -129,8 +147,9 @@ export class BusinessMatcher {
         city: parsed.city ?? null,
         state: parsed.state ?? null,
         zip: parsed.zip ?? null,
-        lat: parsed.lat ?? null,
-        lng: parsed.lng ?? null,
+        lat,
+        lng,
+        serviceAreaId,
         categoryId: categoryId ?? null,
         primaryType: parsed.primaryType ?? null,
         types: parsed.types ?? [],
@@ -158,9 +177,11 @@ export class BusinessMatcher {
 
   /**
    * Update lastSeenAt and merge any new data from the parsed result.
+   * A business stored without coordinates gets its ZIP's centroid when
+   * this result doesn't carry coordinates either.
    */
   private async updateLastSeen(
-    businessId: string,
+    business: Business,
     parsed: ParsedBusiness,
     engineId: string,
   ): Promise<void> {
@@ -175,9 +196,19 @@ export class BusinessMatcher {
     if (parsed.website) updateData.website = parsed.website;
     if (parsed.googlePlaceId) updateData.googlePlaceId = parsed.googlePlaceId;
     if (parsed.bingPlaceId) updateData.bingPlaceId = parsed.bingPlaceId;
+    if (parsed.zip && !business.zip) updateData.zip = parsed.zip;
     if (parsed.lat !== undefined && parsed.lng !== undefined) {
       updateData.lat = parsed.lat;
       updateData.lng = parsed.lng;
+      updateData.serviceAreaId = await this.areaAssigner.findAreaId(parsed.lat, parsed.lng);
+    } else if (business.lat === null || business.lng === null) {
+      const zip = business.zip ?? parsed.zip;
+      const centroid = zip ? await this.geocoder.geocodeZip(zip) : null;
+      if (centroid) {
+        updateData.lat = centroid.lat;
+        updateData.lng = centroid.lng;
+        updateData.serviceAreaId = await this.areaAssigner.findAreaId(centroid.lat, centroid.lng);
+      }
     }
 
     // Update ratings from the appropriate engine
@@ -192,7 +223,7 @@ export class BusinessMatcher {
     }
 
     await this.prisma.business.update({
-      where: { id: businessId },
+      where: { id: business.id },
       data: updateData,
     });
   }
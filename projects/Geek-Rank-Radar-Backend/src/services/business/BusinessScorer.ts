@@ -0,0 +1,286 @@
+import type { PrismaClient } from '../../generated/prisma/client/index.js';
+import * as cheerio from 'cheerio';
+import type { ReviewVelocity, RankingMomentum, WebsiteQuality } from '../../types/business.types.js';
+import { NOT_FOUND_RANK } from '../analytics/ScanMetrics.js';
+import { logger } from '../../config/logger.js';
+import { toErrorMessage } from '../../utils/errors.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_MS = 30 * DAY_MS;
+
+/** Review history considered for velocity */
+const VELOCITY_WINDOW_DAYS = 90;
+/** Snapshot history loaded — twice the window so the span and staleness look back far enough */
+const VELOCITY_HISTORY_DAYS = VELOCITY_WINDOW_DAYS * 2;
+/** Minimum snapshot span before a velocity is reported */
+const MIN_VELOCITY_SPAN_DAYS = 14;
+/** New reviews per month above which velocity is 'accelerating' */
+const ACCELERATING_PER_MONTH = 5;
+/** New reviews per month at or above which velocity is 'stable' */
+const STABLE_PER_MONTH = 1;
+/** No new reviews for this long means 'stale' */
+const STALE_AFTER_MONTHS = 3;
+
+/** Comparable scans (same area, keyword, engine) used for momentum */
+const MOMENTUM_SCANS = 3;
+/** Scan history considered for momentum */
+const MOMENTUM_LOOKBACK_DAYS = 90;
+/** Average ATRP change (positions) that counts as rising/falling */
+const MOMENTUM_THRESHOLD = 1;
+
+/** Businesses scored per query batch */
+const BATCH_SIZE = 50;
+
+interface SnapshotPoint {
+  reviewCount: number;
+  capturedAt: Date;
+}
+
+interface VelocityResult {
+  velocity: ReviewVelocity | null;
+  lastReviewDate: Date | null;
+}
+
+/**
+ * Computes the competitive signals stored on Business:
+ * reviewVelocity and lastReviewDate from ReviewSnapshot history,
+ * rankingMomentum from ScanSummary ATRP over recent comparable scans.
+ *
+ * websiteQuality is measured during enrichment (see rateWebsite) —
+ * the scorer only marks businesses without a website as 'none'.
+ */
+export class BusinessScorer {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Score every business that ranked in the given scans.
+   * Returns the number of businesses updated.
+   */
+  async scoreScanBusinesses(scanIds: string[]): Promise<number> {
+    const summaries = await this.prisma.scanSummary.findMany({
+      where: { scanId: { in: scanIds } },
+      select: { businessId: true },
+      distinct: ['businessId'],
+    });
+
+    return this.scoreBusinesses(summaries.map((s) => s.businessId));
+  }
+
+  async scoreBusinesses(businessIds: string[]): Promise<number> {
+    let updated = 0;
+
+    for (let i = 0; i < businessIds.length; i += BATCH_SIZE) {
+      const batch = businessIds.slice(i, i + BATCH_SIZE);
+      const [velocities, momentums, businesses] = await Promise.all([
+        this.computeVelocities(batch),
+        this.computeMomentums(batch),
+        this.prisma.business.findMany({
+          where: { id: { in: batch } },
+          select: { id: true, website: true },
+        }),
+      ]);
+
+      for (const business of businesses) {
+        const velocity = velocities.get(business.id);
+        const data: Record<string, unknown> = {};
+
+        if (velocity?.velocity) data.reviewVelocity = velocity.velocity;
+        if (velocity?.lastReviewDate) data.lastReviewDate = velocity.lastReviewDate;
+
+        const momentum = momentums.get(business.id);
+        if (momentum) data.rankingMomentum = momentum;
+
+        if (!business.website) data.websiteQuality = 'none' satisfies WebsiteQuality;
+
+        if (Object.keys(data).length === 0) continue;
+
+        try {
+          await this.prisma.business.update({ where: { id: business.id }, data });
+          updated++;
+        } catch (error: unknown) {
+          logger.warn(`[BusinessScorer] Failed to update ${business.id}: ${toErrorMessage(error)}`);
+        }
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Review velocity per business from its review snapshots.
+   * Uses the source with the most snapshots (google or bing) so counts
+   * from different platforms are never mixed.
+   */
+  private async computeVelocities(businessIds: string[]): Promise<Map<string, VelocityResult>> {
+    const since = new Date(Date.now() - VELOCITY_WINDOW_DAYS * DAY_MS);
+    const historyStart = new Date(Date.now() - VELOCITY_HISTORY_DAYS * DAY_MS);
+
+    const snapshots = await this.prisma.reviewSnapshot.findMany({
+      where: { businessId: { in: businessIds }, capturedAt: { gte: historyStart } },
+      select: { businessId: true, source: true, reviewCount: true, capturedAt: true },
+      orderBy: { capturedAt: 'asc' },
+    });
+
+    const bySource = new Map<string, Map<string, SnapshotPoint[]>>();
+    for (const snapshot of snapshots) {
+      let sources = bySource.get(snapshot.businessId);
+      if (!sources) {
+        sources = new Map();
+        bySource.set(snapshot.businessId, sources);
+      }
+      const series = sources.get(snapshot.source) ?? [];
+      series.push({ reviewCount: snapshot.reviewCount, capturedAt: snapshot.capturedAt });
+      sources.set(snapshot.source, series);
+    }
+
+    const results = new Map<string, VelocityResult>();
+    for (const [businessId, sources] of bySource) {
+      let longest: SnapshotPoint[] = [];
+      for (const series of sources.values()) {
+        if (series.length > longest.length) longest = series;
+      }
+      results.set(businessId, rateVelocity(longest, since));
+    }
+
+    return results;
+  }
+
+  /**
+   * Ranking momentum per business: ATRP change across the last
+   * MOMENTUM_SCANS comparable scans, averaged over every
+   * (area, keyword, engine) combination the business appears in.
+   */
+  private async computeMomentums(businessIds: string[]): Promise<Map<string, RankingMomentum>> {
+    const since = new Date(Date.now() - MOMENTUM_LOOKBACK_DAYS * DAY_MS);
+
+    const scans = await this.prisma.scan.findMany({
+      where: {
+        status: 'completed',
+        completedAt: { gte: since },
+        summaries: { some: { businessId: { in: businessIds } } },
+      },
+      select: { keyword: true, serviceAreaId: true, searchEngine: true },
+    });
+
+    // Scans the business didn't appear in still count (as NOT_FOUND_RANK),
+    // so fetch every completed scan for the combinations it appeared in
+    const combos = new Map(scans.map((s) => [
+      `${s.serviceAreaId}|${s.keyword}|${s.searchEngine}`,
+      { serviceAreaId: s.serviceAreaId, keyword: s.keyword, searchEngine: s.searchEngine },
+    ]));
+    const comboScans = combos.size === 0 ? [] : await this.prisma.scan.findMany({
+      where: {
+        status: 'completed',
+        completedAt: { gte: since },
+        OR: [...combos.values()],
+      },
+      select: { id: true, keyword: true, serviceAreaId: true, searchEngine: true },
+      orderBy: { completedAt: 'desc' },
+    });
+
+    const recentByCombo = new Map<string, string[]>();
+    for (const scan of comboScans) {
+      const key = `${scan.serviceAreaId}|${scan.keyword}|${scan.searchEngine}`;
+      const ids = recentByCombo.get(key) ?? [];
+      if (ids.length < MOMENTUM_SCANS) ids.push(scan.id);
+      recentByCombo.set(key, ids);
+    }
+
+    const recentScanIds = [...recentByCombo.values()].flat();
+    const summaries = await this.prisma.scanSummary.findMany({
+      where: { scanId: { in: recentScanIds }, businessId: { in: businessIds } },
+      select: { scanId: true, businessId: true, atrp: true },
+    });
+
+    const atrpByKey = new Map(summaries.map((s) => [`${s.businessId}|${s.scanId}`, Number(s.atrp)]));
+    const results = new Map<string, RankingMomentum>();
+
+    for (const businessId of businessIds) {
+      const changes: number[] = [];
+
+      for (const scanIds of recentByCombo.values()) {
+        if (scanIds.length < 2) continue;
+        if (!scanIds.some((id) => atrpByKey.has(`${businessId}|${id}`))) continue;
+
+        // scanIds are newest first
+        const newest = atrpByKey.get(`${businessId}|${scanIds[0]}`) ?? NOT_FOUND_RANK;
+        const oldest = atrpByKey.get(`${businessId}|${scanIds[scanIds.length - 1]}`) ?? NOT_FOUND_RANK;
+        changes.push(oldest - newest);
+      }
+
+      if (changes.length === 0) continue;
+
+      const avgChange = changes.reduce((acc, c) => acc + c, 0) / changes.length;
+      if (avgChange >= MOMENTUM_THRESHOLD) {
+        results.set(businessId, 'rising');
+      } else if (avgChange <= -MOMENTUM_THRESHOLD) {
+        results.set(businessId, 'falling');
+      } else {
+        results.set(businessId, 'stable');
+      }
+    }
+
+    return results;
+  }
+}
+
+/**
+ * Velocity from one source's snapshots (oldest first).
+ * lastReviewDate is when the current review count was first observed —
+ * the closest we can get without scraping individual reviews.
+ */
+function rateVelocity(series: SnapshotPoint[], since: Date): VelocityResult {
+  if (series.length < 2) return { velocity: null, lastReviewDate: null };
+
+  const latest = series[series.length - 1];
+
+  let lastReviewDate: Date | null = null;
+  let unchangedSince = series[0].capturedAt;
+  for (let i = series.length - 1; i > 0; i--) {
+    if (series[i].reviewCount > series[i - 1].reviewCount) {
+      lastReviewDate = series[i].capturedAt;
+      unchangedSince = series[i].capturedAt;
+      break;
+    }
+  }
+
+  if (latest.capturedAt.getTime() - unchangedSince.getTime() >= STALE_AFTER_MONTHS * MONTH_MS) {
+    return { velocity: 'stale', lastReviewDate };
+  }
+
+  // Start from the last snapshot before the window so the span covers it fully
+  let start = series[0];
+  for (const point of series) {
+    if (point.capturedAt > since) break;
+    start = point;
+  }
+
+  const spanMs = latest.capturedAt.getTime() - start.capturedAt.getTime();
+  if (spanMs < MIN_VELOCITY_SPAN_DAYS * DAY_MS) return { velocity: null, lastReviewDate };
+
+  const perMonth = (latest.reviewCount - start.reviewCount) / (spanMs / MONTH_MS);
+
+  let velocity: ReviewVelocity;
+  if (perMonth > ACCELERATING_PER_MONTH) {
+    velocity = 'accelerating';
+  } else if (perMonth >= STABLE_PER_MONTH) {
+    velocity = 'stable';
+  } else {
+    velocity = 'slowing';
+  }
+
+  return { velocity, lastReviewDate };
+}
+
+/**
+ * Website quality from a fetched homepage: 'modern' when served over
+ * HTTPS with a responsive viewport meta tag, otherwise 'outdated'.
+ */
+export function rateWebsite(html: string, finalUrl: string): WebsiteQuality {
+  const isHttps = finalUrl.startsWith('https://');
+  const $ = cheerio.load(html);
+  const viewport = $('meta[name="viewport"]').attr('content') ?? '';
+  const isMobileFriendly = /width\s*=\s*device-width/i.test(viewport);
+
+  return isHttps && isMobileFriendly ? 'modern' : 'outdated';
+}
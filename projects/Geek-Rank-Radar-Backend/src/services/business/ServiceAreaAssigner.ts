@@ -0,0 +1,99 @@
+import type { PrismaClient } from '../../generated/prisma/client/index.js';
+import { areaContainsPoint, toAreaExtent, type AreaExtent } from '../../utils/geojson.js';
+import { haversineDistance } from '../../utils/geo.js';
+import { logger } from '../../config/logger.js';
+
+/** How long the active service areas are cached for per-business lookups */
+const AREA_CACHE_MS = 60_000;
+
+/** Businesses read per page when reassigning */
+const REASSIGN_PAGE_SIZE = 500;
+
+interface CachedArea extends AreaExtent {
+  id: string;
+}
+
+/**
+ * Assigns businesses to the service area containing their coordinates —
+ * inside the area's GeoJSON boundary when it has one, else within its
+ * radius. Where areas overlap, a boundary match wins over a radius match,
+ * then the nearest center.
+ */
+export class ServiceAreaAssigner {
+  private areas: CachedArea[] | null = null;
+  private loadedAt = 0;
+
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * The service area containing a point, or null when none does.
+   */
+  async findAreaId(lat: number, lng: number): Promise<string | null> {
+    return pickArea(await this.getAreas(), lat, lng);
+  }
+
+  /**
+   * Recompute serviceAreaId for every business with coordinates
+   * (call after a service area is created, moved, or reshaped).
+   * Returns the number of businesses whose area changed.
+   */
+  async reassignAll(): Promise<number> {
+    this.areas = null;
+    const areas = await this.getAreas();
+    let changed = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const businesses = await this.prisma.business.findMany({
+        where: { lat: { not: null }, lng: { not: null } },
+        select: { id: true, lat: true, lng: true, serviceAreaId: true },
+        orderBy: { id: 'asc' },
+        take: REASSIGN_PAGE_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+      if (businesses.length === 0) break;
+      cursor = businesses[businesses.length - 1].id;
+
+      // Group the changes by target area so each page is a handful of updateMany calls
+      const moves = new Map<string | null, string[]>();
+      for (const business of businesses) {
+        const areaId = pickArea(areas, Number(business.lat), Number(business.lng));
+        if (areaId === business.serviceAreaId) continue;
+        moves.set(areaId, [...(moves.get(areaId) ?? []), business.id]);
+      }
+
+      for (const [serviceAreaId, ids] of moves) {
+        await this.prisma.business.updateMany({ where: { id: { in: ids } }, data: { serviceAreaId } });
+        changed += ids.length;
+      }
+    }
+
+    logger.info(`[ServiceAreaAssigner] Reassigned ${changed} businesses across ${areas.length} service areas`);
+    return changed;
+  }
+
+  private async getAreas(): Promise<CachedArea[]> {
+    if (this.areas && Date.now() - this.loadedAt < AREA_CACHE_MS) return this.areas;
+
+    const rows = await this.prisma.serviceArea.findMany({ where: { isActive: true } });
+    this.areas = rows.map((row) => ({ id: row.id, ...toAreaExtent(row) }));
+    this.loadedAt = Date.now();
+    return this.areas;
+  }
+}
+
+function pickArea(areas: CachedArea[], lat: number, lng: number): string | null {
+  let best: { id: string; bounded: boolean; distance: number } | null = null;
+
+  for (const area of areas) {
+    if (!areaContainsPoint(area, lat, lng)) continue;
+
+    const bounded = area.boundary !== null;
+    const distance = haversineDistance(area.centerLat, area.centerLng, lat, lng);
+    if (!best || (bounded && !best.bounded) || (bounded === best.bounded && distance < best.distance)) {
+      best = { id: area.id, bounded, distance };
+    }
+  }
+
+  return best?.id ?? null;
+}
@@ -2,8 +2,9 @@ import type { EngineConfig, ThrottleConfig } from '../../config/engines.js';
 import type { GeoPoint, SERPResult, EngineStatus } from '../../types/engine.types.js';
 import { buildStealthHeaders, trackRequest, rotateProfile } from '../../utils/userAgents.js';
 import { humanDelay, sleep } from '../../utils/delay.js';
-import { CookieJar } from '../../utils/cookies.js';
+import { CookieJar, type Cookie } from '../../utils/cookies.js';
 import { ProxyRotator } from '../../utils/proxy.js';
+import { ParserHealth, type ParserHealthSnapshot } from './ParserHealth.js';
 import { logger } from '../../config/logger.js';
 
 export interface EngineState {
@@ -17,6 +18,26 @@ export interface EngineState {
   dayResetAt: number;
 }
 
+export interface EngineBlockedEvent {
+  engineId: string;
+  blockedUntil: Date;
+  captchaCount: number;
+}
+
+/** Engine state that survives restarts (see EngineStateStore) */
+export interface PersistedEngineState {
+  requestsThisHour: number;
+  requestsToday: number;
+  hourResetAt: Date;
+  dayResetAt: Date;
+  lastRequestAt: Date | null;
+  blockedUntil: Date | null;
+  errorCount: number;
+  captchaCount: number;
+  captchaWindowStart: Date | null;
+  cookies: Cookie[];
+}
+
 /** Shared proxy rotator singleton (all engines share the same pool) */
 let sharedProxyRotator: ProxyRotator | undefined;
 
@@ -46,13 +67,17 @@ export abstract class BaseEngine {
   protected readonly throttle: ThrottleConfig;
   protected state: EngineState;
   protected readonly cookieJar = new CookieJar();
+  private readonly parserHealth: ParserHealth;
   private captchaCount = 0;
   private captchaWindowStart = 0;
   private requestCount = 0;
+  private blockedHandler: ((event: EngineBlockedEvent) => void) | null = null;
+  private stateChangeHandler: (() => void) | null = null;
 
   constructor(config: EngineConfig) {
     this.config = config;
     this.throttle = config.throttle;
+    this.parserHealth = new ParserHealth(config.degradedThreshold);
 
     const now = Date.now();
     this.state = {
@@ -86,6 +111,61 @@ export abstract class BaseEngine {
     this.captchaWindowStart = 0;
     rotateProfile();
     logger.info(`[${this.engineId}] Block manually cleared`);
+    this.stateChangeHandler?.();
+  }
+
+  /**
+   * Set a callback fired whenever a CAPTCHA puts the engine into a block window.
+   */
+  setBlockedHandler(handler: (event: EngineBlockedEvent) => void): void {
+    this.blockedHandler = handler;
+  }
+
+  /**
+   * Set a callback fired whenever throttle, block or cookie state changes.
+   */
+  setStateChangeHandler(handler: () => void): void {
+    this.stateChangeHandler = handler;
+  }
+
+  /**
+   * Snapshot of the counters, block window, CAPTCHA history and cookies.
+   */
+  exportState(): PersistedEngineState {
+    this.refreshBuckets();
+    return {
+      requestsThisHour: this.state.requestsThisHour,
+      requestsToday: this.state.requestsToday,
+      hourResetAt: new Date(this.state.hourResetAt),
+      dayResetAt: new Date(this.state.dayResetAt),
+      lastRequestAt: this.state.lastRequestAt,
+      blockedUntil: this.state.blockedUntil,
+      errorCount: this.state.errorCount,
+      captchaCount: this.captchaCount,
+      captchaWindowStart: this.captchaWindowStart ? new Date(this.captchaWindowStart) : null,
+      cookies: this.cookieJar.getAll(),
+    };
+  }
+
+  /**
+   * Resume from a saved snapshot. Windows that elapsed while the service
+   * was down (hour/day buckets, block) expire on the next status check.
+   */
+  restoreState(saved: PersistedEngineState): void {
+    this.state = {
+      status: saved.blockedUntil ? 'blocked' : 'healthy',
+      requestsThisHour: saved.requestsThisHour,
+      requestsToday: saved.requestsToday,
+      lastRequestAt: saved.lastRequestAt,
+      blockedUntil: saved.blockedUntil,
+      errorCount: saved.errorCount,
+      hourResetAt: saved.hourResetAt.getTime(),
+      dayResetAt: saved.dayResetAt.getTime(),
+    };
+    this.captchaCount = saved.captchaCount;
+    this.captchaWindowStart = saved.captchaWindowStart?.getTime() ?? 0;
+    this.cookieJar.restore(saved.cookies);
+    this.refreshBuckets();
   }
 
   getStatus(): EngineStatus {
@@ -102,11 +182,43 @@ export abstract class BaseEngine {
       return 'throttled';
     }
 
+    if (this.parserHealth.isDegraded()) {
+      return 'degraded';
+    }
+
     return 'healthy';
   }
 
+  /**
+   * Degraded engines keep scanning — the parser may still be partly
+   * working, and fresh responses are what clears the degraded state.
+   */
   canMakeRequest(): boolean {
-    return this.getStatus() === 'healthy';
+    const status = this.getStatus();
+    return status === 'healthy' || status === 'degraded';
+  }
+
+  /**
+   * Track parse quality of a completed search.
+   * Marks the engine degraded when too many recent responses for the
+   * current parser version were empty or needed the regex fallback.
+   */
+  recordParseResult(result: SERPResult): void {
+    if (!this.parserHealth.record(result)) return;
+
+    const health = this.parserHealth.getSnapshot();
+    if (health.degraded) {
+      logger.warn(
+        `[${this.engineId}] Parser ${health.parserVersion} degraded — ` +
+        `${Math.round(health.unhealthyRate * 100)}% of the last ${health.sampleSize} responses were empty or used the regex fallback`,
+      );
+    } else {
+      logger.info(`[${this.engineId}] Parser ${health.parserVersion} recovered`);
+    }
+  }
+
+  getParserHealth(): ParserHealthSnapshot {
+    return this.parserHealth.getSnapshot();
   }
 
   /**
@@ -148,6 +260,7 @@ export abstract class BaseEngine {
     // Session rotation: rotate UA profile after N requests
     this.requestCount++;
     trackRequest(SESSION_ROTATION_INTERVAL);
+    this.stateChangeHandler?.();
   }
 
   /**
@@ -155,6 +268,7 @@ export abstract class BaseEngine {
    */
   protected recordError(): void {
     this.state.errorCount++;
+    this.stateChangeHandler?.();
   }
 
   /**
@@ -200,6 +314,13 @@ export abstract class BaseEngine {
     logger.warn(
       `[${this.engineId}] CAPTCHA #${this.captchaCount} in 24h window — pausing ${pauseDesc} until ${this.state.blockedUntil.toISOString()}`,
     );
+
+    this.blockedHandler?.({
+      engineId: this.engineId,
+      blockedUntil: this.state.blockedUntil,
+      captchaCount: this.captchaCount,
+    });
+    this.stateChangeHandler?.();
   }
 
   /**
@@ -225,6 +346,7 @@ export abstract class BaseEngine {
    */
   protected storeCookies(domain: string, setCookieHeader: string | string[] | undefined): void {
     this.cookieJar.setCookies(domain, setCookieHeader);
+    if (setCookieHeader) this.stateChangeHandler?.();
   }
 
   /**
@@ -0,0 +1,116 @@
+import type { PrismaClient } from '../../generated/prisma/client/index.js';
+import type { BaseEngine } from './BaseEngine.js';
+import type { Cookie } from '../../utils/cookies.js';
+import { logger } from '../../config/logger.js';
+import { toErrorMessage } from '../../utils/errors.js';
+
+/** Delay before writing a changed engine's state — coalesces a burst of requests into one write */
+const SAVE_DEBOUNCE_MS = 5000;
+
+/**
+ * Persists engine throttle counters, block windows, CAPTCHA history and
+ * cookies so a deploy or restart doesn't reset them. Without this a
+ * restart right after a CAPTCHA would resume scraping immediately
+ * instead of honoring the 24h pause.
+ *
+ * Writes are debounced per engine; call flush() before shutdown.
+ */
+export class EngineStateStore {
+  private readonly engines = new Map<string, BaseEngine>();
+  private readonly pendingSaves = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Start persisting an engine's state whenever it changes.
+   */
+  track(engine: BaseEngine): void {
+    this.engines.set(engine.engineId, engine);
+    engine.setStateChangeHandler(() => this.scheduleSave(engine.engineId));
+  }
+
+  /**
+   * Load saved state into every tracked engine.
+   * Returns the number of engines restored.
+   */
+  async restore(): Promise<number> {
+    const rows = await this.prisma.engineState.findMany({
+      where: { engineId: { in: [...this.engines.keys()] } },
+    });
+
+    for (const row of rows) {
+      const engine = this.engines.get(row.engineId);
+      if (!engine) continue;
+
+      engine.restoreState({
+        requestsThisHour: row.requestsThisHour,
+        requestsToday: row.requestsToday,
+        hourResetAt: row.hourResetAt,
+        dayResetAt: row.dayResetAt,
+        lastRequestAt: row.lastRequestAt,
+        blockedUntil: row.blockedUntil,
+        errorCount: row.errorCount,
+        captchaCount: row.captchaCount,
+        captchaWindowStart: row.captchaWindowStart,
+        cookies: (row.cookies as Cookie[] | null) ?? [],
+      });
+
+      const status = engine.getStatus();
+      logger.info(
+        `[EngineStateStore] Restored ${row.engineId}: ${status}, ` +
+        `${row.requestsToday} requests today${status === 'blocked' ? `, blocked until ${row.blockedUntil?.toISOString()}` : ''}`,
+      );
+    }
+
+    return rows.length;
+  }
+
+  /**
+   * Write every pending change now (call before shutdown).
+   */
+  async flush(): Promise<void> {
+    const engineIds = [...this.pendingSaves.keys()];
+    for (const timer of this.pendingSaves.values()) clearTimeout(timer);
+    this.pendingSaves.clear();
+
+    await Promise.all(engineIds.map((engineId) => this.save(engineId)));
+  }
+
+  private scheduleSave(engineId: string): void {
+    if (this.pendingSaves.has(engineId)) return;
+
+    this.pendingSaves.set(engineId, setTimeout(() => {
+      this.pendingSaves.delete(engineId);
+      void this.save(engineId);
+    }, SAVE_DEBOUNCE_MS));
+  }
+
+  private async save(engineId: string): Promise<void> {
+    const engine = this.engines.get(engineId);
+    if (!engine) return;
+
+    const state = engine.exportState();
+    const data = {
+      requestsThisHour: state.requestsThisHour,
+      requestsToday: state.requestsToday,
+      hourResetAt: state.hourResetAt,
+      dayResetAt: state.dayResetAt,
+      lastRequestAt: state.lastRequestAt,
+      blockedUntil: state.blockedUntil,
+      errorCount: state.errorCount,
+      captchaCount: state.captchaCount,
+      captchaWindowStart: state.captchaWindowStart,
+      cookies: JSON.parse(JSON.stringify(state.cookies)) as Record<string, string | number>[],
+    };
+
+    try {
+      await this.prisma.engineState.upsert({
+        where: { engineId },
+        create: { engineId, ...data },
+        update: data,
+      });
+    } catch (error: unknown) {
+      logger.warn(`[EngineStateStore] Failed to save ${engineId}: ${toErrorMessage(error)}`);
+    }
+  }
+}
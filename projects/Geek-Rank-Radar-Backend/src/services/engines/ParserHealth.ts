@@ -0,0 +1,111 @@
+import type { SERPResult } from '../../types/engine.types.js';
+
+/** Responses kept per parser version for the rolling rate */
+const WINDOW_SIZE = 50;
+
+/** Responses needed before a version can be judged degraded */
+const MIN_SAMPLES = 10;
+
+/** Default rate of empty/fallback responses that marks a parser degraded */
+export const DEFAULT_DEGRADED_THRESHOLD = 0.5;
+
+/** Reported when a result carries no parserVersion */
+const UNKNOWN_VERSION = 'unknown';
+
+interface ParseOutcome {
+  empty: boolean;
+  fallback: boolean;
+}
+
+export interface ParserHealthSnapshot {
+  parserVersion: string | null;
+  sampleSize: number;
+  /** Share of recent responses with 0 businesses */
+  zeroResultRate: number;
+  /** Share of recent responses where selectors failed and the regex fallback ran */
+  fallbackRate: number;
+  /** Share of recent responses that were empty or needed the fallback */
+  unhealthyRate: number;
+  threshold: number;
+  degraded: boolean;
+  degradedSince: Date | null;
+}
+
+/**
+ * Rolling parse quality for one engine, tracked separately per PARSER_VERSION.
+ *
+ * A selector break doesn't throw — the parser just returns nothing (or
+ * limps along on the regex fallback), which looks identical to a keyword
+ * with no local results. One empty response means nothing; a sustained
+ * run of them across many keywords and points means the markup changed.
+ */
+export class ParserHealth {
+  private readonly windows = new Map<string, ParseOutcome[]>();
+  private currentVersion: string | null = null;
+  private degradedSince: Date | null = null;
+
+  constructor(private readonly threshold = DEFAULT_DEGRADED_THRESHOLD) {}
+
+  /**
+   * Record one parsed response.
+   * Returns true when this response changed the degraded state.
+   *
+   * CAPTCHA pages were never parsed, so they say nothing about the parser
+   * and are ignored.
+   */
+  record(result: SERPResult): boolean {
+    if (result.metadata.captchaDetected) return false;
+
+    // A response without a version counts toward the current one — it is not a version change
+    const version = result.metadata.parserVersion ?? this.currentVersion ?? UNKNOWN_VERSION;
+    const wasDegraded = this.degradedSince !== null;
+
+    // A new parser version starts from a clean window
+    if (version !== this.currentVersion) {
+      this.currentVersion = version;
+      this.degradedSince = null;
+    }
+
+    const window = this.windows.get(version) ?? [];
+    window.push({
+      empty: result.businesses.length === 0,
+      fallback: result.metadata.regexFallback === true,
+    });
+    if (window.length > WINDOW_SIZE) window.shift();
+    this.windows.set(version, window);
+
+    const isDegraded = window.length >= MIN_SAMPLES && unhealthyRate(window) >= this.threshold;
+
+    if (isDegraded && !this.degradedSince) this.degradedSince = new Date();
+    if (!isDegraded) this.degradedSince = null;
+    return isDegraded !== wasDegraded;
+  }
+
+  isDegraded(): boolean {
+    return this.degradedSince !== null;
+  }
+
+  getSnapshot(): ParserHealthSnapshot {
+    const window = this.currentVersion ? this.windows.get(this.currentVersion) ?? [] : [];
+    const count = window.length;
+
+    return {
+      parserVersion: this.currentVersion,
+      sampleSize: count,
+      zeroResultRate: rate(window.filter((o) => o.empty).length, count),
+      fallbackRate: rate(window.filter((o) => o.fallback).length, count),
+      unhealthyRate: rate(window.filter((o) => o.empty || o.fallback).length, count),
+      threshold: this.threshold,
+      degraded: this.isDegraded(),
+      degradedSince: this.degradedSince,
+    };
+  }
+}
+
+function unhealthyRate(window: ParseOutcome[]): number {
+  return rate(window.filter((o) => o.empty || o.fallback).length, window.length);
+}
+
+function rate(count: number, total: number): number {
+  return total === 0 ? 0 : Math.round((count / total) * 1000) / 1000;
+}
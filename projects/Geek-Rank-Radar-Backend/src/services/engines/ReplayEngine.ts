@@ -0,0 +1,157 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { BaseEngine } from './BaseEngine.js';
+import { BingSearchParser } from '../parsers/BingSearchParser.js';
+import type { BingSearchResponse } from '../parsers/BingSearchParser.js';
+import { BingLocalParser } from '../parsers/BingLocalParser.js';
+import { GoogleSearchParser } from '../parsers/GoogleSearchParser.js';
+import { GoogleLocalParser } from '../parsers/GoogleLocalParser.js';
+import { GoogleMapsParser } from '../parsers/GoogleMapsParser.js';
+import { DuckDuckGoParser } from '../parsers/DuckDuckGoParser.js';
+import { ENGINE_CONFIGS } from '../../config/engines.js';
+import { logger } from '../../config/logger.js';
+import type { GeoPoint, GridPoint, SERPResult } from '../../types/engine.types.js';
+
+interface ReplaySource {
+  /** Fixture file extension — what the real engine receives over the wire */
+  format: 'html' | 'json';
+  /** Filename written by scripts/fetch-samples.ts, used as the last fallback */
+  sampleFile?: string;
+  parse: (raw: string, query: string, location: GeoPoint, responseTimeMs: number) => SERPResult;
+}
+
+const REPLAY_SOURCES: Record<string, ReplaySource> = {
+  bing_api: {
+    format: 'json',
+    parse: (raw, query, location, ms) =>
+      new BingSearchParser().parse(JSON.parse(raw) as BingSearchResponse, query, location, ms),
+  },
+  bing_local: {
+    format: 'html',
+    sampleFile: 'bing-maps.html',
+    parse: (raw, query, location, ms) => new BingLocalParser().parse(raw, query, location, ms),
+  },
+  google_search: {
+    format: 'html',
+    sampleFile: 'google-search.html',
+    parse: (raw, query, location, ms) => new GoogleSearchParser().parse(raw, query, location, ms),
+  },
+  google_local: {
+    format: 'html',
+    sampleFile: 'google-local.html',
+    parse: (raw, query, location, ms) => new GoogleLocalParser().parse(raw, query, location, ms),
+  },
+  google_maps: {
+    format: 'html',
+    parse: (raw, query, location, ms) => new GoogleMapsParser().parse(raw, query, location, ms),
+  },
+  duckduckgo: {
+    format: 'html',
+    sampleFile: 'duckduckgo.html',
+    parse: (raw, query, location, ms) => new DuckDuckGoParser().parse(raw, query, location, ms),
+  },
+};
+
+/**
+ * Offline engine that replays recorded SERP responses instead of hitting
+ * the network. Stands in for a real engine under the same engineId, so
+ * scans, matching and analytics run end to end against fixed input.
+ *
+ * Fixtures are raw responses (as saved by scripts/fetch-samples.ts),
+ * resolved most-specific first:
+ *   <dir>/<engineId>/<query-slug>/<row>-<col>.<ext>
+ *   <dir>/<engineId>/<query-slug>.<ext>
+ *   <dir>/<engineId>.<ext>
+ *   <dir>/<fetch-samples filename>  (e.g. google-search.html)
+ *
+ * Replayed requests never count toward hourly/daily caps — no real traffic is sent.
+ */
+export class ReplayEngine extends BaseEngine {
+  readonly engineId: string;
+  readonly engineName: string;
+
+  private readonly source: ReplaySource;
+
+  constructor(engineId: string, private readonly fixtureDir: string) {
+    const config = ENGINE_CONFIGS[engineId];
+    const source = REPLAY_SOURCES[engineId];
+    if (!config || !source) {
+      throw new Error(`No replay support for engine ${engineId}`);
+    }
+
+    super(config);
+    this.engineId = engineId;
+    this.engineName = `${config.engineName} (replay)`;
+    this.source = source;
+  }
+
+  async search(query: string, location: GeoPoint, _city?: string, _state?: string): Promise<SERPResult> {
+    if (!this.canMakeRequest()) {
+      throw new Error(`${this.engineName} is ${this.getStatus()}, cannot make request`);
+    }
+
+    const startTime = Date.now();
+    const { path, raw } = await this.loadFixture(query, location);
+
+    if (this.source.format === 'html' && this.detectCaptcha(raw)) {
+      this.markBlocked();
+      return {
+        engineId: this.engineId,
+        query,
+        location,
+        timestamp: new Date(),
+        businesses: [],
+        organicResults: [],
+        metadata: { captchaDetected: true, responseTimeMs: Date.now() - startTime },
+      };
+    }
+
+    const result = this.source.parse(raw, query, location, Date.now() - startTime);
+
+    logger.debug(
+      `[${this.engineId}] Replayed ${path}: ${result.businesses.length} businesses, ${result.organicResults.length} organic`,
+    );
+
+    return result;
+  }
+
+  private async loadFixture(query: string, location: GeoPoint): Promise<{ path: string; raw: string }> {
+    const candidates = this.fixtureCandidates(query, location);
+
+    for (const path of candidates) {
+      try {
+        return { path, raw: await readFile(path, 'utf-8') };
+      } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    }
+
+    throw new Error(`No replay fixture for ${this.engineId} "${query}" — tried ${candidates.join(', ')}`);
+  }
+
+  private fixtureCandidates(query: string, location: GeoPoint): string[] {
+    const ext = this.source.format;
+    const engineDir = join(this.fixtureDir, this.engineId);
+    const querySlug = slugify(query);
+    const candidates: string[] = [];
+
+    const point = location as Partial<GridPoint>;
+    if (point.row !== undefined && point.col !== undefined) {
+      candidates.push(join(engineDir, querySlug, `${point.row}-${point.col}.${ext}`));
+    }
+    candidates.push(
+      join(engineDir, `${querySlug}.${ext}`),
+      join(this.fixtureDir, `${this.engineId}.${ext}`),
+    );
+    if (this.source.sampleFile) {
+      candidates.push(join(this.fixtureDir, this.source.sampleFile));
+    }
+
+    // duckduckgo.html is both the engineId and the fetch-samples name
+    return [...new Set(candidates)];
+  }
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replaceAll(/[^a-z0-9]+/g, '-').replaceAll(/^-|-$/g, '');
+}
@@ -7,6 +7,8 @@ import { toErrorMessage } from '../../utils/errors.js';
 import { sleep, humanDelay } from '../../utils/delay.js';
 import { buildBrowserHeaders } from '../../utils/userAgents.js';
 import { withRetry } from '../../utils/retry.js';
+import { rateWebsite } from '../business/BusinessScorer.js';
+import type { WebhookDispatcher } from '../webhooks/WebhookDispatcher.js';
 
 /** Delay between website fetches (ms) */
 const MIN_DELAY_MS = 2000;
@@ -30,6 +32,12 @@ interface EnrichmentProgress {
   finishedAt: Date | null;
 }
 
+interface FetchedPage {
+  html: string;
+  /** URL after redirects */
+  finalUrl: string;
+}
+
 interface EnrichmentOptions {
   /** Only enrich businesses with no email yet */
   onlyMissing?: boolean;
@@ -50,15 +58,19 @@ interface EnrichmentOptions {
  * 3. If no emails found, identify contact/about pages and scrape those
  * 4. Store first valid email in Business.email
  * 5. Log attempt in EnrichmentLog
+ *
+ * The homepage fetch also rates Business.websiteQuality (HTTPS + mobile viewport).
  */
 export class EmailEnrichmentService {
   private readonly prisma: PrismaClient;
+  private readonly webhooks: WebhookDispatcher;
   private readonly parser = new WebsiteEmailParser();
   private progress: EnrichmentProgress = this.freshProgress();
   private abortController: AbortController | null = null;
 
-  constructor(prisma: PrismaClient) {
+  constructor(prisma: PrismaClient, webhooks: WebhookDispatcher) {
     this.prisma = prisma;
+    this.webhooks = webhooks;
   }
 
   getProgress(): EnrichmentProgress {
@@ -124,6 +136,16 @@ export class EmailEnrichmentService {
         `${this.progress.skipped} skipped, ${this.progress.failed} failed ` +
         `out of ${this.progress.total} total`,
       );
+
+      this.webhooks.emit('enrichment.finished', {
+        total: this.progress.total,
+        processed: this.progress.processed,
+        enriched: this.progress.enriched,
+        skipped: this.progress.skipped,
+        failed: this.progress.failed,
+        startedAt: this.progress.startedAt,
+        finishedAt: this.progress.finishedAt,
+      });
     }
 
     return this.getProgress();
@@ -184,11 +206,14 @@ export class EmailEnrichmentService {
       }
 
       // Step 1: Fetch and parse homepage
-      let emails = await this.scrapePageForEmails(url);
+      const homepage = await this.fetchPage(url);
+      // Leave quality untouched when the site is unreachable — it may just be a bad moment
+      const websiteQuality = homepage ? rateWebsite(homepage.html, homepage.finalUrl) : undefined;
+      let emails = homepage ? this.parser.parse(homepage.html) : [];
 
       // Step 2: If no emails on homepage, try contact/about pages
-      if (emails.length === 0) {
-        const contactEmails = await this.scrapeContactPages(url);
+      if (homepage && emails.length === 0) {
+        const contactEmails = await this.scrapeContactPages(url, homepage.html);
         emails = contactEmails;
       }
 
@@ -197,7 +222,7 @@ export class EmailEnrichmentService {
         await this.logEnrichment(businessId, 'no_email_found', null);
         await this.prisma.business.update({
           where: { id: businessId },
-          data: { lastEnrichedAt: new Date() },
+          data: { websiteQuality, lastEnrichedAt: new Date() },
         });
         return;
       }
@@ -208,6 +233,7 @@ export class EmailEnrichmentService {
         where: { id: businessId },
         data: {
           email,
+          websiteQuality,
           lastEnrichedAt: new Date(),
         },
       });
@@ -233,17 +259,8 @@ export class EmailEnrichmentService {
     }
   }
 
-  private async scrapePageForEmails(url: string): Promise<string[]> {
-    const html = await this.fetchPage(url);
-    if (!html) return [];
-    return this.parser.parse(html);
-  }
-
-  private async scrapeContactPages(baseUrl: string): Promise<string[]> {
-    // First, fetch homepage to find contact page links
-    const homepageHtml = await this.fetchPage(baseUrl);
-    if (!homepageHtml) return [];
-
+  private async scrapeContactPages(baseUrl: string, homepageHtml: string): Promise<string[]> {
+    // Find contact page links on the homepage
     const $ = cheerio.load(homepageHtml);
     const contactUrls = this.parser.findContactPageUrls($, baseUrl);
 
@@ -258,9 +275,9 @@ export class EmailEnrichmentService {
       // Brief delay between sub-page requests
       await sleep(humanDelay(1000, 2000));
 
-      const html = await this.fetchPage(contactUrl);
-      if (html) {
-        const emails = this.parser.parse(html);
+      const page = await this.fetchPage(contactUrl);
+      if (page) {
+        const emails = this.parser.parse(page.html);
         allEmails.push(...emails);
       }
 
@@ -271,7 +288,7 @@ export class EmailEnrichmentService {
     return [...new Set(allEmails)];
   }
 
-  private async fetchPage(url: string): Promise<string | null> {
+  private async fetchPage(url: string): Promise<FetchedPage | null> {
     try {
       const response = await withRetry(
         () => axios.get(url, {
@@ -295,7 +312,9 @@ export class EmailEnrichmentService {
         return null;
       }
 
-      return response.data as string;
+      // Node's http adapter exposes the post-redirect URL on the underlying response
+      const request = response.request as { res?: { responseUrl?: string } } | undefined;
+      return { html: response.data as string, finalUrl: request?.res?.responseUrl ?? url };
     } catch (error: unknown) {
       logger.debug(`[EmailEnrichment] Failed to fetch ${url}: ${toErrorMessage(error)}`);
       return null;
@@ -0,0 +1,146 @@
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { getEnv } from '../../config/environment.js';
+import { logger } from '../../config/logger.js';
+import { toErrorMessage } from '../../utils/errors.js';
+
+/** Bundled national dataset (GeoNames, via scripts/fetch-zip-centroids.ts), resolved from src/ or dist/ alike */
+const DEFAULT_DATASET_PATH = fileURLToPath(new URL('../../../data/us-zip-centroids.csv', import.meta.url));
+
+interface ZipCentroid {
+  zip: string;
+  city: string;
+  state: string;
+  lat: number;
+  lng: number;
+}
+
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  city: string;
+  state: string;
+  /** Set for ZIP lookups; city lookups average every ZIP in the city */
+  zip: string | null;
+}
+
+/**
+ * Geocodes US ZIP codes and city/state pairs from a bundled centroid
+ * dataset, with no network calls. Results are ZIP-level centroids —
+ * good enough to center a service area or place a business that came
+ * back without coordinates, not for rooftop accuracy.
+ *
+ * The dataset is a CSV (zip,city,state,lat,lng) — fields may be
+ * double-quoted, with "" for a literal quote; lines starting with # are
+ * ignored. It is read once, on first lookup; GEOCODER_DATASET overrides
+ * the path.
+ */
+export class OfflineGeocoder {
+  private loading: Promise<void> | null = null;
+  private readonly byZip = new Map<string, ZipCentroid>();
+  private readonly byCity = new Map<string, ZipCentroid[]>();
+
+  constructor(private readonly datasetPath = getEnv().GEOCODER_DATASET ?? DEFAULT_DATASET_PATH) {}
+
+  /**
+   * Centroid of a 5-digit ZIP (ZIP+4 is accepted and truncated).
+   */
+  async geocodeZip(zip: string): Promise<GeocodeResult | null> {
+    await this.load();
+    const centroid = this.byZip.get(zip.trim().slice(0, 5));
+    if (!centroid) return null;
+    return { lat: centroid.lat, lng: centroid.lng, city: centroid.city, state: centroid.state, zip: centroid.zip };
+  }
+
+  /**
+   * Mean of the centroids of every ZIP in a city.
+   */
+  async geocodeCity(city: string, state: string): Promise<GeocodeResult | null> {
+    await this.load();
+    const zips = this.byCity.get(cityKey(city, state));
+    if (!zips || zips.length === 0) return null;
+
+    return {
+      lat: round(zips.reduce((sum, z) => sum + z.lat, 0) / zips.length),
+      lng: round(zips.reduce((sum, z) => sum + z.lng, 0) / zips.length),
+      city: zips[0].city,
+      state: zips[0].state,
+      zip: null,
+    };
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= this.readDataset();
+    return this.loading;
+  }
+
+  private async readDataset(): Promise<void> {
+    let content: string;
+    try {
+      content = await readFile(this.datasetPath, 'utf-8');
+    } catch (error: unknown) {
+      logger.warn(`[OfflineGeocoder] Failed to load ${this.datasetPath}: ${toErrorMessage(error)}`);
+      return;
+    }
+
+    const lines = content.split('\n').map((l) => l.trim()).filter((l) => l && !l.startsWith('#'));
+    for (const line of lines) {
+      const [zip = '', city, state, lat, lng] = parseCsvLine(line);
+      // Skips the header row along with anything malformed — Number('') is 0, so empty coordinates are rejected first
+      if (!/^\d{5}$/.test(zip) || !city || !state || !lat || !lng) continue;
+
+      const centroid = { zip, city, state: state.toUpperCase(), lat: Number(lat), lng: Number(lng) };
+      if (!Number.isFinite(centroid.lat) || !Number.isFinite(centroid.lng)) continue;
+
+      this.byZip.set(zip, centroid);
+      const key = cityKey(city, state);
+      const cityZips = this.byCity.get(key) ?? [];
+      cityZips.push(centroid);
+      this.byCity.set(key, cityZips);
+    }
+
+    logger.info(`[OfflineGeocoder] Loaded ${this.byZip.size} ZIP centroids from ${this.datasetPath}`);
+  }
+}
+
+/**
+ * Split one CSV line into trimmed fields, honoring double-quoted fields
+ * (which may contain commas) and "" escapes inside them.
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field.trim());
+  return fields;
+}
+
+function cityKey(city: string, state: string): string {
+  return `${city.trim().toLowerCase()}|${state.trim().toUpperCase()}`;
+}
+
+function round(value: number): number {
+  return Number.parseFloat(value.toFixed(7));
+}
@@ -1,36 +1,47 @@
 import type { GridPoint } from '../../types/engine.types.js';
-import { milesToLatDegrees, milesToLngDegrees } from '../../utils/geo.js';
+import type { GridShape } from '../../types/scan.types.js';
+import { haversineDistance, milesToLatDegrees, milesToLngDegrees } from '../../utils/geo.js';
+import { containsPoint, geometryBounds, type AreaGeometry } from '../../utils/geojson.js';
 
 /**
- * Generate an NxN grid of GPS coordinates centered on a point.
- *
- * The grid covers a square area of (2 * radiusMiles) per side,
- * with points evenly spaced.
- *
- * @param centerLat - Center latitude
- * @param centerLng - Center longitude
- * @param radiusMiles - Radius from center to edge (default 3)
- * @param gridSize - Number of points per axis (default 7 for 7x7=49 points)
+ * Slack on the circle edge — the lattice uses 69 mi/degree while haversine
+ * uses the true earth radius, so edge midpoints measure ~0.1% over radius.
  */
-export function generateGrid(
+const CIRCLE_TOLERANCE = 1.01;
+
+/** Smallest and largest number of points per grid axis */
+export const MIN_GRID_DIMENSION = 3;
+export const MAX_GRID_DIMENSION = 15;
+
+/** Points per axis, and optionally a fixed distance between neighbouring points */
+export interface GridDimensions {
+  rows: number;
+  cols: number;
+  /** Without spacing the lattice spans the area (2 * radiusMiles, or the polygon's bounds) */
+  spacingMiles?: number;
+}
+
+/**
+ * Lay out rows x cols points centered on a point, covering latSpan x lngSpan degrees.
+ */
+function generateLattice(
   centerLat: number,
   centerLng: number,
-  radiusMiles: number,
-  gridSize: number,
+  latSpan: number,
+  lngSpan: number,
+  rows: number,
+  cols: number,
 ): GridPoint[] {
-  const latSpan = milesToLatDegrees(radiusMiles * 2);
-  const lngSpan = milesToLngDegrees(radiusMiles * 2, centerLat);
-
   const startLat = centerLat + latSpan / 2;
   const startLng = centerLng - lngSpan / 2;
 
-  const latStep = latSpan / (gridSize - 1);
-  const lngStep = lngSpan / (gridSize - 1);
+  const latStep = latSpan / (rows - 1);
+  const lngStep = lngSpan / (cols - 1);
 
   const points: GridPoint[] = [];
 
-  for (let row = 0; row < gridSize; row++) {
-    for (let col = 0; col < gridSize; col++) {
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
       points.push({
         row,
         col,
@@ -44,9 +55,117 @@ export function generateGrid(
 }
 
 /**
- * Supported grid sizes and their use cases.
+ * Generate a rows x cols grid of GPS coordinates centered on a point.
+ *
+ * Without spacingMiles the grid covers a square area of (2 * radiusMiles)
+ * per side, with points evenly spaced; with it, neighbouring points are
+ * spacingMiles apart and the grid extends as far as its dimensions reach.
+ *
+ * @param centerLat - Center latitude
+ * @param centerLng - Center longitude
+ * @param radiusMiles - Radius from center to edge (default 3)
+ * @param dimensions - Points per axis (7x7=49 points by default) and optional spacing
+ */
+export function generateGrid(
+  centerLat: number,
+  centerLng: number,
+  radiusMiles: number,
+  dimensions: GridDimensions,
+): GridPoint[] {
+  const { rows, cols, spacingMiles } = dimensions;
+  const heightMiles = spacingMiles !== undefined ? spacingMiles * (rows - 1) : radiusMiles * 2;
+  const widthMiles = spacingMiles !== undefined ? spacingMiles * (cols - 1) : radiusMiles * 2;
+
+  return generateLattice(
+    centerLat,
+    centerLng,
+    milesToLatDegrees(heightMiles),
+    milesToLngDegrees(widthMiles, centerLat),
+    rows,
+    cols,
+  );
+}
+
+/**
+ * Generate a lattice clipped to a circle of radiusMiles around the center.
+ * Points keep their lattice row/col so heatmaps line up with square scans;
+ * a 7x7 circle keeps 29 of the 49 points.
+ */
+export function generateCircularGrid(
+  centerLat: number,
+  centerLng: number,
+  radiusMiles: number,
+  dimensions: GridDimensions,
+): GridPoint[] {
+  return generateGrid(centerLat, centerLng, radiusMiles, dimensions).filter((point) =>
+    haversineDistance(centerLat, centerLng, point.lat, point.lng) <= radiusMiles * CIRCLE_TOLERANCE,
+  );
+}
+
+/**
+ * Generate a lattice over a polygon's bounding box (or centered on it, when
+ * spacing is fixed), keeping only the points inside the polygon.
+ */
+export function generatePolygonGrid(geometry: AreaGeometry, dimensions: GridDimensions): GridPoint[] {
+  const { minLat, maxLat, minLng, maxLng } = geometryBounds(geometry);
+  const { rows, cols, spacingMiles } = dimensions;
+  const centerLat = (minLat + maxLat) / 2;
+
+  const latSpan = spacingMiles !== undefined ? milesToLatDegrees(spacingMiles * (rows - 1)) : maxLat - minLat;
+  const lngSpan = spacingMiles !== undefined
+    ? milesToLngDegrees(spacingMiles * (cols - 1), centerLat)
+    : maxLng - minLng;
+
+  return generateLattice(centerLat, (minLng + maxLng) / 2, latSpan, lngSpan, rows, cols)
+    .filter((point) => containsPoint(geometry, point.lat, point.lng));
+}
+
+/**
+ * Drop points that fall inside any of the given areas (e.g. open water).
+ */
+export function excludePoints(points: GridPoint[], exclusions: AreaGeometry[]): GridPoint[] {
+  if (exclusions.length === 0) return points;
+  return points.filter((point) => !exclusions.some((area) => containsPoint(area, point.lat, point.lng)));
+}
+
+export const GRID_SHAPES = ['square', 'circle', 'polygon'] as const satisfies readonly GridShape[];
+
+export interface GridSpec extends GridDimensions {
+  shape: GridShape;
+  centerLat: number;
+  centerLng: number;
+  radiusMiles: number;
+  /** Required for 'polygon' grids */
+  polygon?: AreaGeometry;
+  /** Areas whose points are removed after the shape is generated */
+  exclusions?: AreaGeometry[];
+}
+
+/**
+ * Generate the points for a scan grid of any shape.
+ */
+export function buildGrid(spec: GridSpec): GridPoint[] {
+  let points: GridPoint[];
+
+  switch (spec.shape) {
+    case 'circle':
+      points = generateCircularGrid(spec.centerLat, spec.centerLng, spec.radiusMiles, spec);
+      break;
+    case 'polygon':
+      if (!spec.polygon) throw new Error('Polygon grids require a polygon');
+      points = generatePolygonGrid(spec.polygon, spec);
+      break;
+    default:
+      points = generateGrid(spec.centerLat, spec.centerLng, spec.radiusMiles, spec);
+  }
+
+  return excludePoints(points, spec.exclusions ?? []);
+}
+
+/**
+ * Common square grid sizes — odd sizes keep a point on the center.
  */
-export const GRID_SIZES = [3, 5, 7, 9] as const;
+export const GRID_SIZES = [3, 5, 7, 9, 11, 13, 15] as const;
 export type GridSize = (typeof GRID_SIZES)[number];
 
 export function isValidGridSize(size: number): size is GridSize {
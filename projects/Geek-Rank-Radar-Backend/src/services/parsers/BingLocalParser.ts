@@ -11,6 +11,8 @@ import { normalizePhone } from '../../utils/phone.js';
  * Extracts business listings from Bing Maps search results.
  */
 export class BingLocalParser {
+  static readonly PARSER_VERSION = '2026-02-19';
+
   parse(
     html: string,
     query: string,
@@ -30,6 +32,7 @@ export class BingLocalParser {
       metadata: {
         captchaDetected: false,
         responseTimeMs,
+        parserVersion: BingLocalParser.PARSER_VERSION,
       },
     };
   }
@@ -33,7 +33,7 @@ interface BingPlace {
   };
 }
 
-interface BingSearchResponse {
+export interface BingSearchResponse {
   webPages?: {
     value: BingWebPage[];
     totalEstimatedMatches?: number;
@@ -47,6 +47,8 @@ interface BingSearchResponse {
  * Parses Bing Web Search API JSON responses into standardized SERPResult.
  */
 export class BingSearchParser {
+  static readonly PARSER_VERSION = '2026-02-19';
+
   parse(
     data: BingSearchResponse,
     query: string,
@@ -67,6 +69,7 @@ export class BingSearchParser {
         totalResults: data.webPages?.totalEstimatedMatches,
         captchaDetected: false,
         responseTimeMs,
+        parserVersion: BingSearchParser.PARSER_VERSION,
       },
     };
   }
@@ -13,6 +13,8 @@ import { normalizePhone } from '../../utils/phone.js';
  * appear in organic results with embedded address/phone in snippets.
  */
 export class DuckDuckGoParser {
+  static readonly PARSER_VERSION = '2026-02-19';
+
   parse(
     html: string,
     query: string,
@@ -33,6 +35,7 @@ export class DuckDuckGoParser {
       metadata: {
         captchaDetected: false,
         responseTimeMs,
+        parserVersion: DuckDuckGoParser.PARSER_VERSION,
       },
     };
   }
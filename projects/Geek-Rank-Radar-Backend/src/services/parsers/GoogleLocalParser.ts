@@ -30,12 +30,14 @@ export class GoogleLocalParser {
     responseTimeMs: number,
   ): SERPResult {
     const $ = cheerio.load(html);
+    let regexFallback = false;
     let businesses = this.parseLocalResults($);
 
     // Fallback: regex extraction if selectors find nothing
     if (businesses.length === 0) {
       logger.debug('[GoogleLocalParser] Cheerio selectors found 0 results, trying regex fallback');
       businesses = this.regexFallback(html);
+      regexFallback = businesses.length > 0;
     }
 
     return {
@@ -48,6 +50,7 @@ export class GoogleLocalParser {
       metadata: {
         captchaDetected: false,
         responseTimeMs,
+        regexFallback: regexFallback || undefined,
         parserVersion: GoogleLocalParser.PARSER_VERSION,
       },
     };
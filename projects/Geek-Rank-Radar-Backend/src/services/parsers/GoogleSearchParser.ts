@@ -26,6 +26,7 @@ export class GoogleSearchParser {
   ): SERPResult {
     const $ = cheerio.load(html);
 
+    let regexFallback = false;
     let businesses = this.parseLocalPack($);
     const organicResults = this.parseOrganicResults($);
     const peopleAlsoAsk = this.parsePeopleAlsoAsk($);
@@ -35,6 +36,7 @@ export class GoogleSearchParser {
     if (businesses.length === 0) {
       logger.debug('[GoogleSearchParser] Cheerio local pack found 0 results, trying regex fallback');
       businesses = this.regexFallbackBusinesses(html);
+      regexFallback = businesses.length > 0;
     }
 
     return {
@@ -49,6 +51,7 @@ export class GoogleSearchParser {
         responseTimeMs,
         peopleAlsoAsk: peopleAlsoAsk.length > 0 ? peopleAlsoAsk : undefined,
         relatedSearches: relatedSearches.length > 0 ? relatedSearches : undefined,
+        regexFallback: regexFallback || undefined,
         parserVersion: GoogleSearchParser.PARSER_VERSION,
       },
     };
@@ -0,0 +1,339 @@
+import type { PrismaClient } from '../../generated/prisma/client/index.js';
+import { ENGINE_CONFIGS, GOOGLE_COMBINED_DAILY_LIMIT, type ThrottleConfig } from '../../config/engines.js';
+import type { BaseEngine } from '../engines/BaseEngine.js';
+
+/** Network round trip and parsing per request, on top of the throttle delay (ms) */
+const ESTIMATED_REQUEST_MS = 2000;
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Job statuses that still need an engine request */
+const PENDING_JOB_STATUSES = ['queued', 'leased'];
+
+/** What an engine may still spend, starting from a point in time */
+export interface EngineCapacity {
+  /** Earliest time the engine can make a request (block end or now) */
+  startAt: number;
+  hourLeft: number;
+  hourResetAt: number;
+  dayLeft: number;
+  dayResetAt: number;
+  /** Daily cap after the current day, including the engine's share of a group limit */
+  perDay: number;
+}
+
+/** An engine's daily request budget, net of work already made or queued */
+export interface DailyBudget {
+  /** Most the engine may spend in a day, after its Google group limit */
+  dailyCap: number;
+  /** Requests still queued or leased on the engine */
+  queued: number;
+  /**
+   * Left today after requests already made and the queued jobs the engine
+   * can still get through before its day resets (never negative). Backlog
+   * past that runs on later days and does not count against today.
+   */
+  remainingToday: number;
+}
+
+/**
+ * Project when an engine will have made `requests` more requests, given its
+ * throttle delays and what's left of its hourly and daily caps.
+ * Returns epoch milliseconds.
+ */
+export function projectFinishTime(throttle: ThrottleConfig, capacity: EngineCapacity, requests: number): number {
+  const perRequestMs = (throttle.minDelayMs + throttle.maxDelayMs) / 2 + ESTIMATED_REQUEST_MS;
+  // A cap of 0 would never drain — treat the engine as limited to one request per window
+  const perHour = Math.max(1, throttle.maxPerHour);
+  const perDay = Math.max(1, capacity.perDay);
+
+  let t = capacity.startAt;
+  let remaining = requests;
+  let { hourLeft, hourResetAt, dayLeft, dayResetAt } = capacity;
+
+  while (remaining > 0) {
+    if (t >= dayResetAt) {
+      dayLeft = perDay;
+      dayResetAt += Math.ceil((t - dayResetAt + 1) / DAY_MS) * DAY_MS;
+    }
+    if (t >= hourResetAt) {
+      hourLeft = perHour;
+      hourResetAt = t + HOUR_MS;
+    }
+
+    const burst = Math.min(remaining, hourLeft, dayLeft);
+    if (burst > 0) {
+      t += burst * perRequestMs;
+      remaining -= burst;
+      hourLeft -= burst;
+      dayLeft -= burst;
+      continue;
+    }
+
+    // Out of budget — wait for whichever window is exhausted
+    t = dayLeft <= 0 ? Math.max(t, dayResetAt) : Math.max(t, hourResetAt);
+  }
+
+  return t;
+}
+
+/**
+ * How many requests an engine can make before `until`, given its throttle
+ * delays and what's left of its hourly and daily caps.
+ */
+export function countRequestsBefore(throttle: ThrottleConfig, capacity: EngineCapacity, until: number): number {
+  const perRequestMs = (throttle.minDelayMs + throttle.maxDelayMs) / 2 + ESTIMATED_REQUEST_MS;
+  const perHour = Math.max(1, throttle.maxPerHour);
+
+  let t = capacity.startAt;
+  let count = 0;
+  let { hourLeft, hourResetAt, dayLeft } = capacity;
+
+  while (t < until && dayLeft > 0) {
+    if (t >= hourResetAt) {
+      hourLeft = perHour;
+      hourResetAt = t + HOUR_MS;
+    }
+
+    const burst = Math.min(hourLeft, dayLeft, Math.ceil((until - t) / perRequestMs));
+    if (burst > 0) {
+      t += burst * perRequestMs;
+      count += burst;
+      hourLeft -= burst;
+      dayLeft -= burst;
+      continue;
+    }
+
+    // Hourly cap spent — wait for the window to reset
+    t = hourResetAt;
+  }
+
+  return count;
+}
+
+/**
+ * Estimates when queued scans and engine queues will finish, from the
+ * jobs still waiting per engine, each engine's throttle delays, hourly
+ * and daily caps, current block window, and GOOGLE_COMBINED_DAILY_LIMIT.
+ *
+ * Engines run in parallel, so a scan's ETA only depends on the jobs
+ * ahead of its own on the same engine.
+ */
+export class ScanEstimator {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly engines: Map<string, BaseEngine>,
+  ) {}
+
+  /**
+   * Estimated completion per scan. Scans that are not queued or running
+   * map to null; running scans with no jobs left map to now.
+   */
+  async estimateScans(scanIds: string[]): Promise<Map<string, Date | null>> {
+    const estimates = new Map<string, Date | null>(scanIds.map((id) => [id, null]));
+    if (scanIds.length === 0) return estimates;
+
+    const scans = await this.prisma.scan.findMany({
+      where: { id: { in: scanIds }, status: { in: ['queued', 'running'] } },
+      select: { id: true, searchEngine: true },
+    });
+    if (scans.length === 0) return estimates;
+
+    const jobGroups = await this.prisma.scanJob.groupBy({
+      by: ['scanId'],
+      where: { scanId: { in: scans.map((s) => s.id) }, status: { in: PENDING_JOB_STATUSES } },
+      _min: { priority: true },
+      _max: { createdAt: true },
+    });
+    const lastJobs = new Map(jobGroups.map((g) => [g.scanId, g]));
+    const capacities = await this.getCapacities();
+    const now = Date.now();
+
+    for (const scan of scans) {
+      const lastJob = lastJobs.get(scan.id);
+      const capacity = capacities.get(scan.searchEngine);
+      const throttle = ENGINE_CONFIGS[scan.searchEngine]?.throttle;
+
+      if (!lastJob || lastJob._min.priority === null || !lastJob._max.createdAt) {
+        // Every point answered — the monitor marks it completed on its next poll
+        estimates.set(scan.id, new Date(now));
+        continue;
+      }
+      if (!capacity || !throttle) continue;
+
+      // Jobs claimed before this scan's last one: higher priority, or same priority and older
+      const priority = lastJob._min.priority;
+      const jobsAhead = await this.prisma.scanJob.count({
+        where: {
+          engineId: scan.searchEngine,
+          status: { in: PENDING_JOB_STATUSES },
+          OR: [
+            { priority: { gt: priority } },
+            { priority, createdAt: { lte: lastJob._max.createdAt } },
+          ],
+        },
+      });
+
+      estimates.set(scan.id, new Date(projectFinishTime(throttle, capacity, jobsAhead)));
+    }
+
+    return estimates;
+  }
+
+  /**
+   * Jobs waiting per engine and when each engine's queue will be empty.
+   */
+  async estimateEngines(): Promise<Map<string, { queued: number; estimatedDrainAt: Date | null }>> {
+    const depths = await this.getDepths();
+    const capacities = await this.getCapacities(depths);
+    const result = new Map<string, { queued: number; estimatedDrainAt: Date | null }>();
+
+    for (const engineId of this.engines.keys()) {
+      const queued = depths.get(engineId) ?? 0;
+      const capacity = capacities.get(engineId);
+      const throttle = ENGINE_CONFIGS[engineId]?.throttle;
+
+      result.set(engineId, {
+        queued,
+        estimatedDrainAt: queued > 0 && capacity && throttle
+          ? new Date(projectFinishTime(throttle, capacity, queued))
+          : null,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * When each engine would finish if `additional` requests joined the
+   * back of its queue. Returns the jobs already queued ahead of them too.
+   */
+  async projectAdditional(
+    additional: Map<string, number>,
+  ): Promise<Map<string, { queuedAhead: number; finishAt: Date | null }>> {
+    const depths = await this.getDepths();
+    const withAdditional = new Map(depths);
+    for (const [engineId, requests] of additional) {
+      withAdditional.set(engineId, (withAdditional.get(engineId) ?? 0) + requests);
+    }
+    const capacities = await this.getCapacities(withAdditional);
+    const result = new Map<string, { queuedAhead: number; finishAt: Date | null }>();
+
+    for (const [engineId, requests] of additional) {
+      const queuedAhead = depths.get(engineId) ?? 0;
+      const capacity = capacities.get(engineId);
+      const throttle = ENGINE_CONFIGS[engineId]?.throttle;
+
+      result.set(engineId, {
+        queuedAhead,
+        finishAt: requests > 0 && capacity && throttle
+          ? new Date(projectFinishTime(throttle, capacity, queuedAhead + requests))
+          : null,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Current capacity of every registered engine. Google engines split
+   * what's left of the combined daily limit among those with queued work.
+   */
+  async getCapacities(depths?: Map<string, number>): Promise<Map<string, EngineCapacity>> {
+    const queued = depths ?? await this.getDepths();
+    const now = Date.now();
+
+    let googleUsedToday = 0;
+    let googleWithWork = 0;
+    for (const [engineId, engine] of this.engines) {
+      if (!isGoogleEngine(engineId)) continue;
+      googleUsedToday += engine.getState().requestsToday;
+      if ((queued.get(engineId) ?? 0) > 0) googleWithWork++;
+    }
+    const googleShare = Math.max(1, googleWithWork);
+    const googleLeftToday = Math.max(0, GOOGLE_COMBINED_DAILY_LIMIT - googleUsedToday);
+
+    const capacities = new Map<string, EngineCapacity>();
+    for (const [engineId, engine] of this.engines) {
+      const throttle = ENGINE_CONFIGS[engineId]?.throttle;
+      if (!throttle) continue;
+
+      const state = engine.getState();
+      let dayLeft = Math.max(0, throttle.maxPerDay - state.requestsToday);
+      let perDay = throttle.maxPerDay;
+      if (isGoogleEngine(engineId)) {
+        dayLeft = Math.min(dayLeft, Math.floor(googleLeftToday / googleShare));
+        perDay = Math.min(perDay, Math.floor(GOOGLE_COMBINED_DAILY_LIMIT / googleShare));
+      }
+
+      capacities.set(engineId, {
+        startAt: Math.max(now, state.blockedUntil?.getTime() ?? 0),
+        hourLeft: Math.max(0, throttle.maxPerHour - state.requestsThisHour),
+        hourResetAt: state.hourResetAt,
+        dayLeft,
+        dayResetAt: state.dayResetAt,
+        perDay,
+      });
+    }
+
+    return capacities;
+  }
+
+  /**
+   * What each engine can still take on today. Only queued jobs that can
+   * run before the engine's day resets count against it. Google engines
+   * are also held to what's left of GOOGLE_COMBINED_DAILY_LIMIT after every
+   * Google engine's requests and jobs due today.
+   */
+  async getDailyBudgets(): Promise<Map<string, DailyBudget>> {
+    const depths = await this.getDepths();
+    const capacities = await this.getCapacities(depths);
+
+    const queuedToday = new Map<string, number>();
+    for (const [engineId, capacity] of capacities) {
+      const throttle = ENGINE_CONFIGS[engineId]?.throttle;
+      const queued = depths.get(engineId) ?? 0;
+      if (!throttle || queued === 0) continue;
+      queuedToday.set(engineId, Math.min(queued, countRequestsBefore(throttle, capacity, capacity.dayResetAt)));
+    }
+
+    let googleCommitted = 0;
+    for (const [engineId, engine] of this.engines) {
+      if (!isGoogleEngine(engineId)) continue;
+      googleCommitted += engine.getState().requestsToday + (queuedToday.get(engineId) ?? 0);
+    }
+    const googleLeft = GOOGLE_COMBINED_DAILY_LIMIT - googleCommitted;
+
+    const budgets = new Map<string, DailyBudget>();
+    for (const [engineId, engine] of this.engines) {
+      const throttle = ENGINE_CONFIGS[engineId]?.throttle;
+      if (!throttle) continue;
+
+      const queued = depths.get(engineId) ?? 0;
+      let dailyCap = throttle.maxPerDay;
+      let remaining = throttle.maxPerDay - engine.getState().requestsToday - (queuedToday.get(engineId) ?? 0);
+      if (isGoogleEngine(engineId)) {
+        dailyCap = Math.min(dailyCap, GOOGLE_COMBINED_DAILY_LIMIT);
+        remaining = Math.min(remaining, googleLeft);
+      }
+
+      budgets.set(engineId, { dailyCap, queued, remainingToday: Math.max(0, remaining) });
+    }
+
+    return budgets;
+  }
+
+  private async getDepths(): Promise<Map<string, number>> {
+    const groups = await this.prisma.scanJob.groupBy({
+      by: ['engineId'],
+      where: { status: { in: PENDING_JOB_STATUSES } },
+      _count: { _all: true },
+    });
+    return new Map(groups.map((g) => [g.engineId, g._count._all]));
+  }
+}
+
+function isGoogleEngine(engineId: string): boolean {
+  return ENGINE_CONFIGS[engineId]?.reputationGroup === 'google';
+}
@@ -0,0 +1,42 @@
+import { EventEmitter } from 'node:events';
+import type { ScanEvent } from '../../types/scan.types.js';
+import { logger } from '../../config/logger.js';
+import { toErrorMessage } from '../../utils/errors.js';
+
+const CHANNEL = 'scan-event';
+
+/**
+ * In-process pub/sub for live scan progress.
+ * The orchestrator and queue publish; SSE connections subscribe.
+ */
+export class ScanEventBus {
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open SSE connection — no fixed upper bound
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: ScanEvent): void {
+    try {
+      this.emitter.emit(CHANNEL, event);
+    } catch (error: unknown) {
+      // A misbehaving subscriber must never break scan processing
+      logger.warn(`[ScanEventBus] Subscriber failed on ${event.type}: ${toErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Subscribe to every event. Returns an unsubscribe function.
+   */
+  subscribe(listener: (event: ScanEvent) => void): () => void {
+    this.emitter.on(CHANNEL, listener);
+    return () => {
+      this.emitter.off(CHANNEL, listener);
+    };
+  }
+
+  getSubscriberCount(): number {
+    return this.emitter.listenerCount(CHANNEL);
+  }
+}
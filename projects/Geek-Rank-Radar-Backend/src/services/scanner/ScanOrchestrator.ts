@@ -1,17 +1,50 @@
+import { resolve } from 'node:path';
 import type { PrismaClient } from '../../generated/prisma/client/index.js';
 import { ScanQueue } from './ScanQueue.js';
 import { BingSearchEngine } from '../engines/BingSearchEngine.js';
 import { GoogleSearchEngine } from '../engines/GoogleSearchEngine.js';
 import { GoogleLocalEngine } from '../engines/GoogleLocalEngine.js';
 import { DuckDuckGoEngine } from '../engines/DuckDuckGoEngine.js';
+import { ReplayEngine } from '../engines/ReplayEngine.js';
+import { EngineStateStore } from '../engines/EngineStateStore.js';
 import { BusinessMatcher } from '../business/BusinessMatcher.js';
-import { generateGrid } from '../grid/gridGenerator.js';
+import { ScanMetrics } from '../analytics/ScanMetrics.js';
+import { RankChangeDetector } from '../analytics/RankChangeDetector.js';
+import { BusinessScorer } from '../business/BusinessScorer.js';
+import type { WebhookDispatcher } from '../webhooks/WebhookDispatcher.js';
+import type { ServiceAreaAssigner } from '../business/ServiceAreaAssigner.js';
+import type { OfflineGeocoder } from '../geocoding/OfflineGeocoder.js';
+import { ScanEventBus } from './ScanEventBus.js';
+import { ScanEstimator, type DailyBudget } from './ScanEstimator.js';
+import { buildGrid } from '../grid/gridGenerator.js';
+import { toAreaExtent } from '../../utils/geojson.js';
 import { logger } from '../../config/logger.js';
-import { toErrorMessage } from '../../utils/errors.js';
+import { getEnv } from '../../config/environment.js';
+import { ENGINE_CONFIGS, GOOGLE_COMBINED_DAILY_LIMIT } from '../../config/engines.js';
+import { toErrorMessage, ScanBudgetError, ValidationError } from '../../utils/errors.js';
 import { sleep } from '../../utils/delay.js';
 import type { BaseEngine } from '../engines/BaseEngine.js';
-import type { ScanTask, CreateScanRequest, FullScanRequest } from '../../types/scan.types.js';
-import type { ParsedBusiness } from '../../types/engine.types.js';
+import type {
+  ScanTask,
+  CreateScanRequest,
+  FullScanRequest,
+  FullScanResult,
+  ScanBatchStatus,
+  ScanBatchProgress,
+  ScanBatchEngineProgress,
+  ScanStatus,
+  ScanPointStatus,
+  ScanPointAttempt,
+  PointCompletedEvent,
+  GridShape,
+  ScanBudget,
+  CreatedScan,
+  ScanPreview,
+  ScanPreviewCombo,
+  ScanPreviewEngine,
+} from '../../types/scan.types.js';
+import type { GridPoint, ParsedBusiness } from '../../types/engine.types.js';
+import type { AreaGeometry } from '../../utils/geojson.js';
 
 const GOOGLE_ENGINE_IDS = new Set(['google_search', 'google_maps', 'google_local']);
 
@@ -23,6 +56,28 @@ const BATCH_POLL_INTERVAL_MS = 15000;
 const SCAN_TIMEOUT_MS = 30 * 60 * 1000;
 /** Maximum time to wait for a full scan batch to finish (ms) — 6 hours */
 const FULL_SCAN_TIMEOUT_MS = 6 * 60 * 60 * 1000;
+/** Delay before a failed point is retried, unless the engine is blocked for longer (ms) */
+const POINT_RETRY_DELAY_MS = 60_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Default points per grid axis */
+const DEFAULT_GRID_SIZE = 7;
+
+/** Over-cap combos named in a rejected full scan's error message */
+const OVER_CAP_LISTED = 3;
+
+/** A scan's resolved area, engine and grid — everything needed to create it */
+interface ScanPlan {
+  request: CreateScanRequest;
+  serviceArea: { id: string; name: string; state: string; radiusMiles: number };
+  categoryId: string;
+  gridRows: number;
+  gridCols: number;
+  spacingMiles: number | null;
+  gridShape: GridShape;
+  points: GridPoint[];
+}
 
 /**
  * Coordinates full scan runs.
@@ -31,12 +86,28 @@ const FULL_SCAN_TIMEOUT_MS = 6 * 60 * 60 * 1000;
  */
 export class ScanOrchestrator {
   private readonly queue: ScanQueue;
+  private readonly events = new ScanEventBus();
   private readonly matcher: BusinessMatcher;
+  private readonly metrics: ScanMetrics;
+  private readonly scorer: BusinessScorer;
+  private readonly rankChanges: RankChangeDetector;
+  private readonly engineStates: EngineStateStore;
   private readonly engines = new Map<string, BaseEngine>();
-
-  constructor(private readonly prisma: PrismaClient) {
-    this.queue = new ScanQueue();
-    this.matcher = new BusinessMatcher(prisma);
+  private readonly estimator: ScanEstimator;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly webhooks: WebhookDispatcher,
+    areaAssigner: ServiceAreaAssigner,
+    geocoder: OfflineGeocoder,
+  ) {
+    this.queue = new ScanQueue(prisma, this.events);
+    this.matcher = new BusinessMatcher(prisma, areaAssigner, geocoder);
+    this.metrics = new ScanMetrics(prisma);
+    this.scorer = new BusinessScorer(prisma);
+    this.rankChanges = new RankChangeDetector(prisma);
+    this.engineStates = new EngineStateStore(prisma);
+    this.estimator = new ScanEstimator(prisma, this.engines);
 
     this.registerEngines();
     this.queue.setTaskHandler((task) => this.executeTask(task));
@@ -46,16 +117,25 @@ export class ScanOrchestrator {
   private registerEngines(): void {
     // google_maps disabled — requires Playwright/Chrome which is not available on Render
     // bing_local disabled — Bing Maps renders listings via JavaScript, static HTML has no business data
-    const engineConstructors: Array<() => BaseEngine> = [
-      () => new BingSearchEngine(),
-      () => new GoogleSearchEngine(),
-      () => new GoogleLocalEngine(),
-      () => new DuckDuckGoEngine(),
+    const engineConstructors: Array<[string, () => BaseEngine]> = [
+      ['bing_api', () => new BingSearchEngine()],
+      ['google_search', () => new GoogleSearchEngine()],
+      ['google_local', () => new GoogleLocalEngine()],
+      ['duckduckgo', () => new DuckDuckGoEngine()],
     ];
 
-    for (const create of engineConstructors) {
+    // SERP_REPLAY_DIR swaps every live engine for a fixture-backed ReplayEngine (offline runs)
+    const replayDir = getEnv().SERP_REPLAY_DIR;
+    if (replayDir) {
+      logger.warn(`[ScanOrchestrator] Replay mode — serving recorded SERPs from ${resolve(replayDir)}`);
+    }
+
+    for (const [engineId, createLive] of engineConstructors) {
       try {
-        const engine = create();
+        const engine = replayDir ? new ReplayEngine(engineId, resolve(replayDir)) : createLive();
+        engine.setBlockedHandler((event) => this.webhooks.emit('engine.blocked', event));
+        // Replayed SERPs never touch the live engines — keep their saved state untouched
+        if (!replayDir) this.engineStates.track(engine);
         this.engines.set(engine.engineId, engine);
         this.queue.registerEngine(engine);
         logger.info(`[ScanOrchestrator] Registered engine: ${engine.engineName}`);
@@ -65,20 +145,44 @@ export class ScanOrchestrator {
     }
   }
 
+  /**
+   * Restore engine throttle counters, block windows and cookies saved
+   * before the last shutdown. Call before recovering orphaned scans.
+   */
+  async restoreEngineStates(): Promise<void> {
+    const restored = await this.engineStates.restore();
+    logger.info(`[ScanOrchestrator] Restored saved state for ${restored} engines`);
+  }
+
+  /**
+   * Write pending engine state changes (call before shutdown).
+   */
+  async saveEngineStates(): Promise<void> {
+    await this.engineStates.flush();
+  }
+
   /**
    * Recover scans left in running/queued state after a service restart.
-   * Re-queues incomplete scan points and resumes batch monitoring.
+   * Queued jobs survive in the ScanJob table; this re-queues any
+   * incomplete point without a job and resumes batch monitoring,
+   * including batches whose only open scans are paused.
    */
   async recoverOrphanedScans(): Promise<void> {
     const orphanedScans = await this.prisma.scan.findMany({
       where: { status: { in: ['running', 'queued'] } },
       select: {
-        id: true, searchEngine: true, pointsCompleted: true, pointsTotal: true, keyword: true,
+        id: true, searchEngine: true, pointsCompleted: true, pointsTotal: true, keyword: true, batchId: true,
         serviceArea: { select: { name: true, state: true } },
       },
     });
 
-    if (orphanedScans.length === 0) {
+    // Paused batch scans have nothing to re-queue, but their batch still needs a monitor
+    const pausedBatchScans = await this.prisma.scan.findMany({
+      where: { status: 'paused', batchId: { not: null } },
+      select: { id: true, batchId: true },
+    });
+
+    if (orphanedScans.length === 0 && pausedBatchScans.length === 0) {
       logger.info('[ScanOrchestrator] No orphaned scans to recover');
       return;
     }
@@ -100,6 +204,9 @@ export class ScanOrchestrator {
           where: { id: scan.id },
           data: { status: 'completed', completedAt: new Date() },
         });
+        await this.onScansCompleted([scan.id]);
+        // Batch members are reported by fullscan.completed, as in monitorFullScan()
+        if (!scan.batchId) this.emitScanCompleted(scan.id);
         continue;
       }
 
@@ -126,17 +233,23 @@ export class ScanOrchestrator {
         state: scan.serviceArea.state,
       }));
 
-      this.queue.enqueueBatch(tasks);
+      // Points that still have a job are skipped by enqueueBatch
+      await this.queue.enqueueBatch(tasks);
       totalRequeued += tasks.length;
     }
 
-    logger.info(`[ScanOrchestrator] Re-queued ${totalRequeued} tasks from ${orphanedScans.length} scans`);
+    logger.info(`[ScanOrchestrator] Ensured jobs for ${totalRequeued} pending points from ${orphanedScans.length} scans`);
 
-    // Start batch monitor for all recovered scans
-    const scanIds = orphanedScans.map((s) => s.id);
-    this.monitorFullScan(scanIds).catch((error: unknown) => {
-      logger.error(`[ScanOrchestrator] Recovery monitor failed: ${toErrorMessage(error)}`);
-    });
+    // One batch monitor per original batch, so each batch record is resolved
+    const byBatch = new Map<string | null, string[]>();
+    for (const scan of [...orphanedScans, ...pausedBatchScans]) {
+      byBatch.set(scan.batchId, [...(byBatch.get(scan.batchId) ?? []), scan.id]);
+    }
+    for (const [batchId, scanIds] of byBatch) {
+      this.monitorFullScan(scanIds, batchId ?? undefined).catch((error: unknown) => {
+        logger.error(`[ScanOrchestrator] Recovery monitor failed: ${toErrorMessage(error)}`);
+      });
+    }
   }
 
   getEngine(engineId: string): BaseEngine | undefined {
@@ -151,6 +264,18 @@ export class ScanOrchestrator {
     return this.queue;
   }
 
+  getEvents(): ScanEventBus {
+    return this.events;
+  }
+
+  getMetrics(): ScanMetrics {
+    return this.metrics;
+  }
+
+  getEstimator(): ScanEstimator {
+    return this.estimator;
+  }
+
   /**
    * Get combined daily request count across all Google scraping engines.
    */
@@ -169,25 +294,242 @@ export class ScanOrchestrator {
    * Create and execute a single scan (from API).
    * Uses per-scan monitoring — fine for individual scans.
    */
-  async createScan(request: CreateScanRequest): Promise<string> {
-    const scanId = await this.createScanRecord(request);
+  async createScan(request: CreateScanRequest): Promise<CreatedScan> {
+    const plan = await this.planScan(request);
+
+    // Refuse up front rather than queue a scan its engine can't get through today
+    const budgets = await this.estimator.getDailyBudgets();
+    const budget = toScanBudget(plan, budgets.get(request.searchEngine));
+    if (isOverBudget(budget, 'remainingToday')) {
+      throw new ScanBudgetError(
+        `Scan needs ${budget.requestCost} requests but ${budget.engineId} has ` +
+        `${budget.remainingToday} of its ${budget.dailyCap} daily requests left`,
+      );
+    }
+
+    const scanId = await this.createScanRecord(plan);
 
     // Monitor single scan completion in background
     this.monitorScan(scanId).catch((error: unknown) => {
       logger.error(`[ScanOrchestrator] Scan monitor ${scanId} failed: ${toErrorMessage(error)}`);
     });
 
-    return scanId;
+    return { scanId, budget };
+  }
+
+  /**
+   * Record a full-scan batch before its scans exist, so the caller has an
+   * ID to poll while createFullScan() creates them.
+   */
+  async createScanBatch(request: FullScanRequest, scheduleId?: string): Promise<string> {
+    const batch = await this.prisma.scanBatch.create({
+      data: {
+        source: scheduleId ? 'schedule' : 'api',
+        scheduleId: scheduleId ?? null,
+        serviceAreaIds: request.serviceAreaIds ?? [],
+        categoryIds: request.categoryIds ?? [],
+        engineIds: request.engineIds ?? [],
+        gridSize: request.gridSize ?? null,
+      },
+    });
+    return batch.id;
   }
 
   /**
    * Create a full scan across multiple service areas, categories, keywords, and engines.
-   * Returns array of scan IDs created.
+   * Scans are linked to the given batch (or a new one).
    *
    * Unlike createScan(), this does NOT spawn a monitor per scan.
    * Instead, one shared monitorFullScan() loop checks all scans in a single query.
    */
-  async createFullScan(request: FullScanRequest): Promise<string[]> {
+  async createFullScan(request: FullScanRequest, batchId?: string): Promise<FullScanResult> {
+    const id = batchId ?? await this.createScanBatch(request);
+
+    let scanIds: string[];
+    let skipped: ScanPreviewCombo[];
+    try {
+      ({ scanIds, skipped } = await this.createBatchScans(request, id));
+    } catch (error: unknown) {
+      await this.prisma.scanBatch.update({
+        where: { id },
+        data: { status: 'failed', errorMessage: toErrorMessage(error), completedAt: new Date() },
+      }).catch(() => { /* ignore update failure */ });
+      throw error;
+    }
+
+    await this.prisma.scanBatch.update({
+      where: { id },
+      data: {
+        skipped: JSON.parse(JSON.stringify(skipped)) as Record<string, string | number>[],
+        ...(scanIds.length > 0
+          ? { status: 'running', scansTotal: scanIds.length }
+          : { status: 'failed', errorMessage: 'No scans could be created', completedAt: new Date() }),
+      },
+    });
+
+    logger.info(`[ScanOrchestrator] Full scan batch ${id} created ${scanIds.length} scans, skipped ${skipped.length}`);
+
+    // Single batch monitor for all scans — one DB query every 15s instead of N queries every 5s
+    if (scanIds.length > 0) {
+      this.monitorFullScan(scanIds, id).catch((error: unknown) => {
+        logger.error(`[ScanOrchestrator] Full scan monitor failed: ${toErrorMessage(error)}`);
+      });
+    }
+
+    return { batchId: id, scanIds, skipped };
+  }
+
+  /**
+   * What createScan() would queue for a request, without writing anything.
+   */
+  async previewScan(request: CreateScanRequest): Promise<ScanPreview> {
+    return this.buildPreview([await this.planScan(request)], [], 'remainingToday');
+  }
+
+  /**
+   * What createFullScan() would create for a request, without writing anything.
+   */
+  async previewFullScan(request: FullScanRequest): Promise<ScanPreview> {
+    const plans: ScanPlan[] = [];
+    const skipped: ScanPreviewCombo[] = [];
+
+    for (const scanRequest of await this.resolveFullScan(request)) {
+      try {
+        plans.push(await this.planScan(scanRequest));
+      } catch (error: unknown) {
+        skipped.push({ ...toCombo(scanRequest, 0), reason: toErrorMessage(error) });
+      }
+    }
+
+    return this.buildPreview(plans, skipped, 'dailyCap');
+  }
+
+  /**
+   * Refuse a full scan up front when its combos, summed per engine and
+   * across the Google group, outgrow a day's budget, or when nothing would
+   * be created — the checks createScan() makes before queueing, run before
+   * a batch is recorded. Returns the preview it checked.
+   */
+  async validateFullScan(request: FullScanRequest): Promise<ScanPreview> {
+    const preview = await this.previewFullScan(request);
+
+    if (preview.overCap.length > 0) {
+      const listed = preview.overCap.slice(0, OVER_CAP_LISTED)
+        .map((c) => `"${c.keyword}" on ${c.engineId} (${c.reason})`);
+      const more = preview.overCap.length - listed.length;
+      throw new ScanBudgetError(
+        `${preview.overCap.length} scans don't fit their engine's daily cap: ${listed.join('; ')}` +
+        (more > 0 ? `; and ${more} more` : '') +
+        '. Use a smaller grid or fewer engines — POST /api/scans/full/preview lists them all.',
+      );
+    }
+    if (preview.scans === 0) {
+      const reason = preview.skipped[0]?.reason ?? 'no service areas, keywords or engines matched';
+      throw new ValidationError(`Full scan would create no scans: ${reason}`);
+    }
+
+    return preview;
+  }
+
+  private async buildPreview(
+    plans: ScanPlan[],
+    skipped: ScanPreviewCombo[],
+    limit: 'remainingToday' | 'dailyCap',
+  ): Promise<ScanPreview> {
+    const budgets = await this.estimator.getDailyBudgets();
+    const overCap: ScanPreviewCombo[] = [];
+    const accepted = new Map<string, { scans: number; requests: number }>();
+    const overBudget = trackBatchBudget(limit);
+
+    for (const plan of plans) {
+      const budget = toScanBudget(plan, budgets.get(plan.request.searchEngine));
+      const reason = overBudget(budget);
+      if (reason) {
+        overCap.push({ ...toCombo(plan.request, budget.requestCost), reason });
+        continue;
+      }
+
+      const totals = accepted.get(budget.engineId) ?? { scans: 0, requests: 0 };
+      totals.scans++;
+      totals.requests += budget.requestCost;
+      accepted.set(budget.engineId, totals);
+    }
+
+    const projections = await this.estimator.projectAdditional(
+      new Map([...accepted].map(([engineId, totals]) => [engineId, totals.requests])),
+    );
+    const now = Date.now();
+
+    const engines: ScanPreviewEngine[] = [...accepted].map(([engineId, totals]) => {
+      const budget = budgets.get(engineId);
+      const projection = projections.get(engineId);
+      const finishAt = projection?.finishAt ?? null;
+      return {
+        engineId,
+        scans: totals.scans,
+        requests: totals.requests,
+        dailyCap: budget?.dailyCap ?? 0,
+        remainingToday: budget?.remainingToday ?? 0,
+        queuedAhead: projection?.queuedAhead ?? 0,
+        estimatedCompletionAt: finishAt,
+        daysRequired: finishAt ? daysFrom(now, finishAt) : 0,
+      };
+    });
+
+    const finishTimes = engines.flatMap((e) => e.estimatedCompletionAt ? [e.estimatedCompletionAt.getTime()] : []);
+
+    return {
+      scans: engines.reduce((sum, e) => sum + e.scans, 0),
+      totalRequests: engines.reduce((sum, e) => sum + e.requests, 0),
+      daysRequired: Math.max(0, ...engines.map((e) => e.daysRequired)),
+      estimatedCompletionAt: finishTimes.length > 0 ? new Date(Math.max(...finishTimes)) : null,
+      engines: engines.sort((a, b) => a.engineId.localeCompare(b.engineId)),
+      overCap,
+      skipped,
+    };
+  }
+
+  /**
+   * Create one scan per (serviceArea x keyword x engine) combination.
+   */
+  private async createBatchScans(
+    request: FullScanRequest,
+    batchId: string,
+  ): Promise<{ scanIds: string[]; skipped: ScanPreviewCombo[] }> {
+    const scanRequests = await this.resolveFullScan(request);
+    const budgets = await this.estimator.getDailyBudgets();
+    const overBudget = trackBatchBudget('dailyCap');
+    const scanIds: string[] = [];
+    const skipped: ScanPreviewCombo[] = [];
+
+    // No per-scan monitoring — we use a single batch monitor
+    for (const scanRequest of scanRequests) {
+      let requests = 0;
+      try {
+        const plan = await this.planScan(scanRequest);
+        const budget = toScanBudget(plan, budgets.get(scanRequest.searchEngine));
+        requests = budget.requestCost;
+        const reason = overBudget(budget);
+        if (reason) throw new ScanBudgetError(reason);
+
+        scanIds.push(await this.createScanRecord(plan, batchId));
+      } catch (error: unknown) {
+        logger.warn(
+          `[ScanOrchestrator] Failed to create scan for area=${scanRequest.serviceAreaId}, ` +
+          `keyword="${scanRequest.keyword}", engine=${scanRequest.searchEngine}: ${toErrorMessage(error)}`,
+        );
+        skipped.push({ ...toCombo(scanRequest, requests), reason: toErrorMessage(error) });
+      }
+    }
+
+    return { scanIds, skipped };
+  }
+
+  /**
+   * Expand a full-scan request into one scan request per
+   * (serviceArea x keyword x engine) combination.
+   */
+  private async resolveFullScan(request: FullScanRequest): Promise<CreateScanRequest[]> {
     // Resolve service areas (all active if none specified)
     const serviceAreas = request.serviceAreaIds?.length
       ? await this.prisma.serviceArea.findMany({
@@ -196,7 +538,7 @@ export class ScanOrchestrator {
       : await this.prisma.serviceArea.findMany({ where: { isActive: true } });
 
     if (serviceAreas.length === 0) {
-      throw new Error('No active service areas found');
+      throw new ValidationError('No active service areas found');
     }
 
     // Resolve categories + keywords (all active if none specified)
@@ -210,7 +552,7 @@ export class ScanOrchestrator {
     });
 
     if (categories.length === 0) {
-      throw new Error('No active categories found');
+      throw new ValidationError('No active categories found');
     }
 
     // Resolve engines (all registered if none specified)
@@ -219,13 +561,11 @@ export class ScanOrchestrator {
       : [...this.engines.keys()];
 
     if (engineIds.length === 0) {
-      throw new Error('No available engines');
+      throw new ValidationError('No available engines');
     }
 
-    const scanIds: string[] = [];
+    const scanRequests: CreateScanRequest[] = [];
 
-    // For each combination of (serviceArea x keyword x engine), create a scan record
-    // No per-scan monitoring — we use a single batch monitor
     for (const area of serviceAreas) {
       for (const category of categories) {
         const keywords = category.keywords.map((kw) => kw.keyword);
@@ -236,42 +576,245 @@ export class ScanOrchestrator {
 
         for (const keyword of keywords) {
           for (const engineId of engineIds) {
-            try {
-              const scanId = await this.createScanRecord({
-                serviceAreaId: area.id,
-                categoryId: category.id,
-                keyword,
-                searchEngine: engineId,
-                gridSize: request.gridSize,
-              });
-              scanIds.push(scanId);
-            } catch (error: unknown) {
-              logger.warn(
-                `[ScanOrchestrator] Failed to create scan for area=${area.id}, keyword="${keyword}", engine=${engineId}: ${toErrorMessage(error)}`,
-              );
-            }
+            scanRequests.push({
+              serviceAreaId: area.id,
+              categoryId: category.id,
+              keyword,
+              searchEngine: engineId,
+              gridSize: request.gridSize,
+              gridRows: request.gridRows,
+              gridCols: request.gridCols,
+              spacingMiles: request.spacingMiles,
+              gridShape: request.gridShape,
+              excludeWater: request.excludeWater,
+            });
           }
         }
       }
     }
 
-    logger.info(`[ScanOrchestrator] Full scan created ${scanIds.length} scans across ${engineIds.length} engines`);
+    return scanRequests;
+  }
 
-    // Single batch monitor for all scans — one DB query every 15s instead of N queries every 5s
-    if (scanIds.length > 0) {
-      this.monitorFullScan(scanIds).catch((error: unknown) => {
-        logger.error(`[ScanOrchestrator] Full scan monitor failed: ${toErrorMessage(error)}`);
+  /**
+   * Aggregate progress of a full-scan batch: scan and point counts overall
+   * and per engine, failed scans, and a projected finish time.
+   * Returns null if the batch doesn't exist.
+   */
+  async getBatchProgress(batchId: string): Promise<ScanBatchProgress | null> {
+    const batch = await this.prisma.scanBatch.findUnique({ where: { id: batchId } });
+    if (!batch) return null;
+
+    const groups = await this.prisma.scan.groupBy({
+      by: ['searchEngine', 'status'],
+      where: { batchId },
+      _count: { _all: true },
+      _sum: { pointsTotal: true, pointsCompleted: true },
+    });
+
+    const engineIds = [...new Set(groups.map((g) => g.searchEngine))].sort();
+    const failedPointCounts = await Promise.all(engineIds.map((engineId) =>
+      this.prisma.scanPoint.count({ where: { status: 'failed', scan: { batchId, searchEngine: engineId } } }),
+    ));
+
+    const engines: ScanBatchEngineProgress[] = engineIds.map((engineId, index) => {
+      const rows = groups.filter((g) => g.searchEngine === engineId);
+      const pointsTotal = rows.reduce((sum, g) => sum + (g._sum.pointsTotal ?? 0), 0);
+      const pointsCompleted = rows.reduce((sum, g) => sum + (g._sum.pointsCompleted ?? 0), 0);
+      return {
+        engineId,
+        scans: rows.reduce((sum, g) => sum + g._count._all, 0),
+        scansByStatus: Object.fromEntries(rows.map((g) => [g.status, g._count._all])),
+        pointsTotal,
+        pointsCompleted,
+        failedPoints: failedPointCounts[index],
+        percentComplete: percent(pointsCompleted, pointsTotal),
+      };
+    });
+
+    const scansByStatus: Record<string, number> = {};
+    for (const g of groups) {
+      scansByStatus[g.status] = (scansByStatus[g.status] ?? 0) + g._count._all;
+    }
+
+    const failedScans = await this.prisma.scan.findMany({
+      where: { batchId, status: 'failed' },
+      select: {
+        id: true, keyword: true, searchEngine: true, errorMessage: true,
+        serviceArea: { select: { name: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const pointsTotal = engines.reduce((sum, e) => sum + e.pointsTotal, 0);
+    const pointsCompleted = engines.reduce((sum, e) => sum + e.pointsCompleted, 0);
+
+    // The batch finishes with its last scan
+    let estimatedCompletionAt: Date | null = null;
+    if (batch.status === 'running') {
+      const activeScans = await this.prisma.scan.findMany({
+        where: { batchId, status: { in: ['queued', 'running'] } },
+        select: { id: true },
       });
+      const estimates = await this.estimator.estimateScans(activeScans.map((scan) => scan.id));
+      for (const estimate of estimates.values()) {
+        if (estimate && (!estimatedCompletionAt || estimate > estimatedCompletionAt)) {
+          estimatedCompletionAt = estimate;
+        }
+      }
     }
 
-    return scanIds;
+    return {
+      batchId,
+      status: batch.status as ScanBatchStatus,
+      scansTotal: batch.scansTotal,
+      scansByStatus,
+      pointsTotal,
+      pointsCompleted,
+      failedPoints: engines.reduce((sum, e) => sum + e.failedPoints, 0),
+      percentComplete: percent(pointsCompleted, pointsTotal),
+      estimatedCompletionAt,
+      engines,
+      failures: failedScans.map((scan) => ({
+        scanId: scan.id,
+        keyword: scan.keyword,
+        searchEngine: scan.searchEngine,
+        serviceArea: scan.serviceArea.name,
+        errorMessage: scan.errorMessage,
+      })),
+      skipped: (batch.skipped as ScanPreviewCombo[] | null) ?? [],
+    };
   }
 
   /**
-   * Create a scan record, generate grid points, and queue tasks.
-   * Does NOT start monitoring — caller decides how to monitor.
+   * Re-run only the failed points of a finished scan, with a fresh attempt budget.
+   * Returns the number of points re-queued (0 if none failed).
    */
-  private async createScanRecord(request: CreateScanRequest): Promise<string> {
+  async retryFailedPoints(scanId: string): Promise<number> {
+    const scan = await this.prisma.scan.findUnique({
+      where: { id: scanId },
+      select: {
+        id: true, searchEngine: true, keyword: true,
+        serviceArea: { select: { name: true, state: true } },
+      },
+    });
+    if (!scan) throw new Error(`Scan ${scanId} not found`);
+
+    const failedPoints = await this.prisma.scanPoint.findMany({
+      where: { scanId, status: 'failed' },
+      select: { id: true, gridRow: true, gridCol: true, lat: true, lng: true },
+    });
+    if (failedPoints.length === 0) return 0;
+
+    const pointIds = failedPoints.map((sp) => sp.id);
+
+    // Failed points were counted as completed — take them back out of the progress
+    await this.prisma.$transaction([
+      this.prisma.scanJob.deleteMany({ where: { scanPointId: { in: pointIds } } }),
+      this.prisma.scanPoint.updateMany({
+        where: { id: { in: pointIds } },
+        data: { status: 'pending', attempts: 0, lastError: null },
+      }),
+      this.prisma.scan.update({
+        where: { id: scanId },
+        data: {
+          status: 'running',
+          completedAt: null,
+          errorMessage: null,
+          pointsCompleted: { decrement: failedPoints.length },
+        },
+      }),
+    ]);
+
+    const tasks: ScanTask[] = failedPoints.map((sp) => ({
+      scanId,
+      scanPointId: sp.id,
+      engineId: scan.searchEngine,
+      query: scan.keyword,
+      point: {
+        row: sp.gridRow,
+        col: sp.gridCol,
+        lat: Number(sp.lat),
+        lng: Number(sp.lng),
+      },
+      priority: 1,
+      city: scan.serviceArea.name,
+      state: scan.serviceArea.state,
+    }));
+
+    await this.queue.enqueueBatch(tasks);
+    await this.publishScanStatus([scanId]);
+    logger.info(`[ScanOrchestrator] Retrying ${tasks.length} failed points of scan ${scanId}`);
+
+    this.monitorScan(scanId).catch((error: unknown) => {
+      logger.error(`[ScanOrchestrator] Scan monitor ${scanId} failed: ${toErrorMessage(error)}`);
+    });
+
+    return tasks.length;
+  }
+
+  /**
+   * Cancel a scan and delete its jobs that haven't started.
+   * Returns the number of jobs purged.
+   */
+  async cancelScan(scanId: string): Promise<number> {
+    await this.prisma.scan.update({
+      where: { id: scanId },
+      data: { status: 'cancelled', completedAt: new Date() },
+    });
+    const purged = await this.queue.purgeScan(scanId);
+
+    logger.info(`[ScanOrchestrator] Scan ${scanId} cancelled, ${purged} jobs purged`);
+    await this.publishScanStatus([scanId]);
+    return purged;
+  }
+
+  /**
+   * Pause a queued or running scan, parking its remaining jobs.
+   * Returns the number of jobs parked.
+   */
+  async pauseScan(scanId: string): Promise<number> {
+    await this.prisma.scan.update({
+      where: { id: scanId },
+      data: { status: 'paused' },
+    });
+    const parked = await this.queue.parkScan(scanId);
+
+    logger.info(`[ScanOrchestrator] Scan ${scanId} paused, ${parked} jobs parked`);
+    await this.publishScanStatus([scanId]);
+    return parked;
+  }
+
+  /**
+   * Resume a paused scan, restoring its parked jobs and monitoring it again.
+   * Returns the number of jobs restored.
+   */
+  async resumeScan(scanId: string): Promise<number> {
+    const scan = await this.prisma.scan.update({
+      where: { id: scanId },
+      data: { status: 'running' },
+      select: { batch: { select: { status: true } } },
+    });
+    const restored = await this.queue.restoreScan(scanId);
+
+    logger.info(`[ScanOrchestrator] Scan ${scanId} resumed, ${restored} jobs restored`);
+    await this.publishScanStatus([scanId]);
+
+    // A running batch's monitor still tracks its paused scans — only standalone scans need a new monitor
+    if (scan.batch?.status !== 'running') {
+      this.monitorScan(scanId).catch((error: unknown) => {
+        logger.error(`[ScanOrchestrator] Scan monitor ${scanId} failed: ${toErrorMessage(error)}`);
+      });
+    }
+
+    return restored;
+  }
+
+  /**
+   * Resolve a scan request's area, category and engine and generate its grid,
+   * without writing anything.
+   */
+  private async planScan(request: CreateScanRequest): Promise<ScanPlan> {
     const serviceArea = await this.prisma.serviceArea.findUnique({
       where: { id: request.serviceAreaId },
     });
@@ -285,31 +828,71 @@ export class ScanOrchestrator {
     const engine = this.engines.get(request.searchEngine);
     if (!engine) throw new Error(`Engine ${request.searchEngine} not available`);
 
-    const gridSize = request.gridSize ?? 7;
+    const gridRows = request.gridRows ?? request.gridSize ?? DEFAULT_GRID_SIZE;
+    const gridCols = request.gridCols ?? request.gridSize ?? DEFAULT_GRID_SIZE;
+    const area = toAreaExtent(serviceArea);
+    // A bounded area is clipped to its boundary unless the request asks for another shape
+    const gridShape = request.gridShape ?? (area.boundary ? 'polygon' : 'square');
+    const polygon = request.polygon ?? area.boundary ?? undefined;
+    if (gridShape === 'polygon' && !polygon) {
+      throw new ValidationError(`Service area ${serviceArea.name} has no boundary — pass a polygon`);
+    }
+
+    // Generate grid points — clipped shapes and water exclusion can leave fewer than rows x cols
+    const points = buildGrid({
+      shape: gridShape,
+      centerLat: area.centerLat,
+      centerLng: area.centerLng,
+      radiusMiles: area.radiusMiles,
+      rows: gridRows,
+      cols: gridCols,
+      spacingMiles: request.spacingMiles,
+      polygon,
+      exclusions: request.excludeWater ? await this.getWaterExclusions() : [],
+    });
+    if (points.length === 0) {
+      throw new ValidationError(`No ${gridShape} grid points left for service area ${serviceArea.name}`);
+    }
+
+    return {
+      request,
+      serviceArea: { id: serviceArea.id, name: serviceArea.name, state: serviceArea.state, radiusMiles: area.radiusMiles },
+      categoryId: category.id,
+      gridRows,
+      gridCols,
+      spacingMiles: request.spacingMiles ?? null,
+      gridShape,
+      points,
+    };
+  }
+
+  /**
+   * Create a scan record and its grid points, and queue tasks.
+   * Does NOT start monitoring — caller decides how to monitor.
+   */
+  private async createScanRecord(plan: ScanPlan, batchId?: string): Promise<string> {
+    const { request, serviceArea, points: gridPoints } = plan;
 
     // Create scan record
     const scan = await this.prisma.scan.create({
       data: {
         serviceAreaId: serviceArea.id,
-        categoryId: category.id,
+        categoryId: plan.categoryId,
         keyword: request.keyword,
         searchEngine: request.searchEngine,
-        gridSize,
-        radiusMiles: Number(serviceArea.radiusMiles),
+        gridSize: Math.max(plan.gridRows, plan.gridCols),
+        gridRows: plan.gridRows,
+        gridCols: plan.gridCols,
+        spacingMiles: plan.spacingMiles,
+        gridShape: plan.gridShape,
+        radiusMiles: serviceArea.radiusMiles,
         status: 'queued',
-        pointsTotal: gridSize * gridSize,
+        pointsTotal: gridPoints.length,
         pointsCompleted: 0,
+        batchId: batchId ?? null,
       },
     });
 
-    // Generate grid points
-    const gridPoints = generateGrid(
-      Number(serviceArea.centerLat),
-      Number(serviceArea.centerLng),
-      Number(serviceArea.radiusMiles),
-      gridSize,
-    );
-
     // Create scan point records
     const scanPoints = await Promise.all(
       gridPoints.map((point) =>
@@ -326,7 +909,7 @@ export class ScanOrchestrator {
       ),
     );
 
-    // Queue tasks — enqueueBatch auto-starts processing
+    // Queue tasks — enqueueBatch persists them and auto-starts processing
     const tasks: ScanTask[] = scanPoints.map((sp: { id: string }, index: number) => ({
       scanId: scan.id,
       scanPointId: sp.id,
@@ -338,26 +921,46 @@ export class ScanOrchestrator {
       state: serviceArea.state,
     }));
 
-    this.queue.enqueueBatch(tasks);
+    await this.queue.enqueueBatch(tasks);
 
     // Mark as running
     await this.prisma.scan.update({
       where: { id: scan.id },
       data: { status: 'running', startedAt: new Date() },
     });
+    await this.publishScanStatus([scan.id]);
 
     return scan.id;
   }
 
+  /**
+   * Active water exclusion zones, applied when a scan asks to skip points over water.
+   */
+  private async getWaterExclusions(): Promise<AreaGeometry[]> {
+    const zones = await this.prisma.exclusionZone.findMany({
+      where: { kind: 'water', isActive: true },
+      select: { geometry: true },
+    });
+    // Geometry is validated on write (areaGeometrySchema)
+    return zones.map((zone) => zone.geometry as unknown as AreaGeometry);
+  }
+
   /**
    * Monitor a single scan (used by createScan API endpoint).
-   * Polls DB every 5s, times out after 30 min.
+   * Polls DB every 5s, times out after 30 min — counted from the latest
+   * deferred retry, when a blocked engine pushes retries further out.
    */
   private async monitorScan(scanId: string): Promise<void> {
-    const startTime = Date.now();
+    let deadline = Date.now() + SCAN_TIMEOUT_MS;
 
     try {
-      while (Date.now() - startTime < SCAN_TIMEOUT_MS) {
+      for (;;) {
+        if (Date.now() >= deadline) {
+          const retryAt = await this.queue.getLatestRetryAt(scanId);
+          if (!retryAt) break;
+          deadline = retryAt.getTime() + SCAN_TIMEOUT_MS;
+        }
+
         await sleep(POLL_INTERVAL_MS);
 
         const scan = await this.prisma.scan.findUnique({ where: { id: scanId } });
@@ -366,25 +969,29 @@ export class ScanOrchestrator {
           return;
         }
 
+        // Paused or cancelled — resumeScan() starts a new monitor
+        if (scan.status !== 'queued' && scan.status !== 'running') return;
+
         if (scan.pointsCompleted >= scan.pointsTotal) {
           await this.prisma.scan.update({
             where: { id: scanId },
             data: { status: 'completed', completedAt: new Date() },
           });
           logger.info(`[ScanOrchestrator] Scan ${scanId} completed (${scan.pointsCompleted}/${scan.pointsTotal})`);
+          await this.publishScanStatus([scanId]);
+          await this.onScansCompleted([scanId]);
+          this.emitScanCompleted(scanId);
           return;
         }
 
-        // Check if queue is empty and engine stopped processing
-        const queueDepth = this.queue.getQueueDepth(scan.searchEngine);
-        const isEngineProcessing = this.queue.getProcessingEngines().has(scan.searchEngine);
-        const hasRetry = this.queue.hasRetryTimer(scan.searchEngine);
-
-        // Don't mark as failed if a retry timer is scheduled — engine will resume
-        if (queueDepth === 0 && !isEngineProcessing && !hasRetry) {
+        // No jobs left for this scan but points missing — jobs were abandoned.
+        // Jobs parked behind a blocked/throttled engine still count as pending.
+        const pendingJobs = await this.queue.getPendingCounts([scanId]);
+        if (!pendingJobs.has(scanId)) {
           const finalStatus = scan.pointsCompleted >= scan.pointsTotal ? 'completed' : 'failed';
-          await this.prisma.scan.update({
-            where: { id: scanId },
+          // Status filter — a pause parks the jobs between the two reads above
+          const { count } = await this.prisma.scan.updateMany({
+            where: { id: scanId, status: { in: ['queued', 'running'] } },
             data: {
               status: finalStatus,
               completedAt: new Date(),
@@ -393,21 +1000,30 @@ export class ScanOrchestrator {
                 : null,
             },
           });
+          if (count === 0) return;
           logger.info(`[ScanOrchestrator] Scan ${scanId} ${finalStatus} (${scan.pointsCompleted}/${scan.pointsTotal})`);
+          await this.publishScanStatus([scanId]);
+          if (finalStatus === 'completed') {
+            await this.onScansCompleted([scanId]);
+            this.emitScanCompleted(scanId);
+          }
           return;
         }
       }
 
-      // Timeout
-      await this.prisma.scan.update({
-        where: { id: scanId },
+      // Timeout — drop its remaining jobs so the queue stops running points for a failed scan
+      const { count } = await this.prisma.scan.updateMany({
+        where: { id: scanId, status: { in: ['queued', 'running'] } },
         data: {
           status: 'failed',
           errorMessage: 'Scan timed out after 30 minutes',
           completedAt: new Date(),
         },
       });
-      logger.error(`[ScanOrchestrator] Scan ${scanId} timed out`);
+      if (count === 0) return;
+      const purged = await this.queue.purgeScan(scanId);
+      logger.error(`[ScanOrchestrator] Scan ${scanId} timed out (${purged} jobs dropped)`);
+      await this.publishScanStatus([scanId]);
     } catch (error: unknown) {
       await this.prisma.scan.update({
         where: { id: scanId },
@@ -418,15 +1034,16 @@ export class ScanOrchestrator {
         },
       }).catch(() => { /* ignore update failure */ });
       logger.error(`[ScanOrchestrator] Scan ${scanId} failed: ${toErrorMessage(error)}`);
+      await this.publishScanStatus([scanId]);
     }
   }
 
   /**
    * Monitor a batch of scans from createFullScan().
    * Uses a single DB query every 15s instead of per-scan polling.
-   * Times out after 6 hours.
+   * Times out after 6 hours. Resolves the batch record, if any, at the end.
    */
-  private async monitorFullScan(scanIds: string[]): Promise<void> {
+  private async monitorFullScan(scanIds: string[], batchId?: string): Promise<void> {
     const startTime = Date.now();
     const scanIdSet = new Set(scanIds);
 
@@ -436,11 +1053,11 @@ export class ScanOrchestrator {
       while (Date.now() - startTime < FULL_SCAN_TIMEOUT_MS) {
         await sleep(BATCH_POLL_INTERVAL_MS);
 
-        // Single query: get status of all scans that aren't yet terminal
+        // Single query: get status of all scans that aren't yet terminal (paused scans keep the batch open)
         const activeScans = await this.prisma.scan.findMany({
           where: {
             id: { in: scanIds },
-            status: { in: ['queued', 'running'] },
+            status: { in: ['queued', 'running', 'paused'] },
           },
           select: {
             id: true,
@@ -453,25 +1070,24 @@ export class ScanOrchestrator {
 
         if (activeScans.length === 0) {
           logger.info(`[ScanOrchestrator] All ${scanIds.length} scans finished`);
+          await this.finishBatch(batchId, null);
+          await this.emitFullScanCompleted(scanIds, batchId, startTime, false);
           return;
         }
 
         // Check each active scan for completion
         const completedNow: string[] = [];
         const failedNow: string[] = [];
+        const pendingJobs = await this.queue.getPendingCounts(activeScans.map((s) => s.id));
 
         for (const scan of activeScans) {
+          // Parked jobs aren't pending — a paused scan waits for resumeScan()
+          if (scan.status === 'paused') continue;
           if (scan.pointsCompleted >= scan.pointsTotal) {
             completedNow.push(scan.id);
-          } else {
-            // Check if engine queue is empty and not processing (and no retry scheduled)
-            const queueDepth = this.queue.getQueueDepth(scan.searchEngine);
-            const isEngineProcessing = this.queue.getProcessingEngines().has(scan.searchEngine);
-            const hasRetry = this.queue.hasRetryTimer(scan.searchEngine);
-
-            if (queueDepth === 0 && !isEngineProcessing && !hasRetry) {
-              failedNow.push(scan.id);
-            }
+          } else if (!pendingJobs.has(scan.id)) {
+            // No jobs left but points incomplete — jobs were abandoned
+            failedNow.push(scan.id);
           }
         }
 
@@ -482,19 +1098,23 @@ export class ScanOrchestrator {
             data: { status: 'completed', completedAt: new Date() },
           });
           logger.info(`[ScanOrchestrator] ${completedNow.length} scans completed`);
+          await this.publishScanStatus(completedNow);
+          await this.onScansCompleted(completedNow);
         }
 
         // Batch update failed scans (queue empty, points incomplete)
         if (failedNow.length > 0) {
+          // Status filter — a scan paused since the query above has parked, not lost, jobs
           await this.prisma.scan.updateMany({
-            where: { id: { in: failedNow } },
+            where: { id: { in: failedNow }, status: { in: ['queued', 'running'] } },
             data: {
               status: 'failed',
               completedAt: new Date(),
-              errorMessage: 'Engine queue empty before all points completed',
+              errorMessage: 'Scan jobs exhausted before all points completed',
             },
           });
-          logger.info(`[ScanOrchestrator] ${failedNow.length} scans failed (queue empty)`);
+          logger.info(`[ScanOrchestrator] ${failedNow.length} scans failed (jobs exhausted)`);
+          await this.publishScanStatus(failedNow);
         }
 
         // Remove resolved scans from tracking
@@ -508,11 +1128,17 @@ export class ScanOrchestrator {
         );
       }
 
-      // Timeout — mark remaining active scans as failed
+      // Timeout — mark remaining active scans as failed, dropping any parked jobs
+      const pausedScans = await this.prisma.scan.findMany({
+        where: { id: { in: [...scanIdSet] }, status: 'paused' },
+        select: { id: true },
+      });
+      for (const scan of pausedScans) await this.queue.purgeScan(scan.id);
+
       const timedOut = await this.prisma.scan.updateMany({
         where: {
           id: { in: [...scanIdSet] },
-          status: { in: ['queued', 'running'] },
+          status: { in: ['queued', 'running', 'paused'] },
         },
         data: {
           status: 'failed',
@@ -523,12 +1149,145 @@ export class ScanOrchestrator {
 
       if (timedOut.count > 0) {
         logger.error(`[ScanOrchestrator] Full scan timed out — ${timedOut.count} scans marked failed`);
+        await this.publishScanStatus([...scanIdSet]);
       }
+      await this.finishBatch(batchId, 'Full scan timed out after 6 hours');
+      await this.emitFullScanCompleted(scanIds, batchId, startTime, true);
     } catch (error: unknown) {
       logger.error(`[ScanOrchestrator] Full scan monitor error: ${toErrorMessage(error)}`);
     }
   }
 
+  /**
+   * Post-completion processing for scans that just reached 'completed'.
+   * Failures are logged per scan and never fail the monitor loop.
+   */
+  private async onScansCompleted(scanIds: string[]): Promise<void> {
+    for (const scanId of scanIds) {
+      try {
+        const count = await this.metrics.summarizeScan(scanId);
+        logger.info(`[ScanOrchestrator] Scan ${scanId} summarized (${count} businesses)`);
+
+        const changes = await this.rankChanges.detect(scanId);
+        if (changes.length > 0) {
+          logger.info(`[ScanOrchestrator] Scan ${scanId} recorded ${changes.length} rank change(s)`);
+          this.webhooks.emit('rank.changed', { scanId, changes });
+        }
+      } catch (error: unknown) {
+        logger.error(`[ScanOrchestrator] Summary for scan ${scanId} failed: ${toErrorMessage(error)}`);
+      }
+    }
+
+    // Scoring reads the summaries written above
+    try {
+      const scored = await this.scorer.scoreScanBusinesses(scanIds);
+      logger.info(`[ScanOrchestrator] Scored ${scored} businesses after ${scanIds.length} scan(s)`);
+    } catch (error: unknown) {
+      logger.error(`[ScanOrchestrator] Business scoring failed: ${toErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Publish the current status of scans to live (SSE) subscribers.
+   * Skips the lookup entirely when nobody is listening.
+   */
+  async publishScanStatus(scanIds: string[]): Promise<void> {
+    if (scanIds.length === 0 || this.events.getSubscriberCount() === 0) return;
+
+    try {
+      const scans = await this.prisma.scan.findMany({
+        where: { id: { in: scanIds } },
+        select: { id: true, status: true, pointsCompleted: true, pointsTotal: true, errorMessage: true },
+      });
+
+      for (const scan of scans) {
+        this.events.publish({
+          type: 'scan-status',
+          data: {
+            scanId: scan.id,
+            status: scan.status as ScanStatus,
+            pointsCompleted: scan.pointsCompleted,
+            pointsTotal: scan.pointsTotal,
+            errorMessage: scan.errorMessage,
+          },
+        });
+      }
+    } catch (error: unknown) {
+      logger.warn(`[ScanOrchestrator] Failed to publish scan status: ${toErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Notify webhooks that a single scan completed, with its top results.
+   */
+  private emitScanCompleted(scanId: string): void {
+    this.prisma.scan.findUnique({
+      where: { id: scanId },
+      select: {
+        id: true,
+        keyword: true,
+        searchEngine: true,
+        gridSize: true,
+        pointsCompleted: true,
+        pointsTotal: true,
+        completedAt: true,
+        serviceArea: { select: { id: true, name: true } },
+        category: { select: { id: true, name: true } },
+      },
+    })
+      .then(async (scan) => {
+        if (!scan) return;
+        const metrics = await this.metrics.getScanMetrics(scanId);
+        this.webhooks.emit('scan.completed', { scan, topBusinesses: metrics.slice(0, 10) });
+      })
+      .catch((error: unknown) => {
+        logger.error(`[ScanOrchestrator] scan.completed webhook for ${scanId} failed: ${toErrorMessage(error)}`);
+      });
+  }
+
+  /**
+   * Mark a batch completed, or failed with the given error.
+   */
+  private async finishBatch(batchId: string | undefined, errorMessage: string | null): Promise<void> {
+    if (!batchId) return;
+
+    await this.prisma.scanBatch.update({
+      where: { id: batchId },
+      data: { status: errorMessage ? 'failed' : 'completed', errorMessage, completedAt: new Date() },
+    }).catch((error: unknown) => {
+      logger.warn(`[ScanOrchestrator] Failed to resolve batch ${batchId}: ${toErrorMessage(error)}`);
+    });
+  }
+
+  /**
+   * Notify webhooks that a full scan batch resolved (or timed out), with status counts.
+   */
+  private async emitFullScanCompleted(
+    scanIds: string[],
+    batchId: string | undefined,
+    startTime: number,
+    timedOut: boolean,
+  ): Promise<void> {
+    try {
+      const counts = await this.prisma.scan.groupBy({
+        by: ['status'],
+        where: { id: { in: scanIds } },
+        _count: { _all: true },
+      });
+
+      this.webhooks.emit('fullscan.completed', {
+        batchId: batchId ?? null,
+        scanIds,
+        totalScans: scanIds.length,
+        statusCounts: Object.fromEntries(counts.map((c) => [c.status, c._count._all])),
+        durationMs: Date.now() - startTime,
+        timedOut,
+      });
+    } catch (error: unknown) {
+      logger.error(`[ScanOrchestrator] fullscan.completed webhook failed: ${toErrorMessage(error)}`);
+    }
+  }
+
   /**
    * Execute a single scan task: search at a grid point, match businesses, record rankings.
    */
@@ -536,51 +1295,136 @@ export class ScanOrchestrator {
     const engine = this.engines.get(task.engineId);
     if (!engine) throw new Error(`Engine ${task.engineId} not found`);
 
+    // Jobs are delivered at least once — skip points a crashed worker already finished
+    const point = await this.prisma.scanPoint.findUnique({
+      where: { id: task.scanPointId },
+      select: { status: true, attempts: true, attemptHistory: true, scan: { select: { status: true } } },
+    });
+    if (!point || point.status === 'completed' || point.status === 'failed') return;
+
+    // Claimed just before its scan was cancelled, failed or paused
+    if (point.scan.status === 'cancelled' || point.scan.status === 'failed') return;
+    if (point.scan.status === 'paused') {
+      await this.queue.park(task);
+      return;
+    }
+
+    const attempt = point.attempts + 1;
+    const history = (point.attemptHistory as ScanPointAttempt[] | null) ?? [];
+    const startedAt = new Date().toISOString();
+
     try {
       const result = await engine.search(task.query, task.point, task.city, task.state);
+      engine.recordParseResult(result);
 
       // Get the scan to find categoryId
       const scan = await this.prisma.scan.findUnique({ where: { id: task.scanId } });
 
       // Match/create businesses and record rankings
+      const rankings: PointCompletedEvent['rankings'] = [];
       for (const biz of result.businesses) {
-        await this.processBusinessResult(task, biz, scan?.categoryId);
+        const businessId = await this.processBusinessResult(task, biz, scan?.categoryId);
+        rankings.push({ businessId, businessName: biz.name, rankPosition: biz.rankPosition });
       }
 
       // Mark scan point as completed
+      const entry: ScanPointAttempt = { attempt, startedAt, finishedAt: new Date().toISOString(), status: 'completed' };
       await this.prisma.scanPoint.update({
         where: { id: task.scanPointId },
-        data: { status: 'completed' },
+        data: {
+          status: 'completed',
+          attempts: attempt,
+          attemptHistory: JSON.parse(JSON.stringify([...history, entry])) as Record<string, string | number>[],
+          lastError: null,
+        },
       });
 
       // Increment completed count
-      await this.prisma.scan.update({
+      const progress = await this.prisma.scan.update({
         where: { id: task.scanId },
         data: { pointsCompleted: { increment: 1 } },
+        select: { pointsCompleted: true, pointsTotal: true },
       });
+
+      this.publishPointCompleted(task, 'completed', rankings, progress);
     } catch (error: unknown) {
+      const message = toErrorMessage(error);
+      const maxAttempts = ENGINE_CONFIGS[task.engineId]?.maxPointAttempts ?? 1;
+      const retry = attempt < maxAttempts;
+
+      const entry: ScanPointAttempt = {
+        attempt,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        status: retry ? 'retrying' : 'failed',
+        error: message,
+      };
       await this.prisma.scanPoint.update({
         where: { id: task.scanPointId },
-        data: { status: 'failed' },
+        data: {
+          status: retry ? 'pending' : 'failed',
+          attempts: attempt,
+          attemptHistory: JSON.parse(JSON.stringify([...history, entry])) as Record<string, string | number>[],
+          lastError: message,
+        },
       });
 
+      if (retry) {
+        // Retry behind fresh work, and not before a block on the engine lifts
+        const blockedUntil = engine.getState().blockedUntil;
+        const retryAt = new Date(Math.max(Date.now() + POINT_RETRY_DELAY_MS, blockedUntil?.getTime() ?? 0));
+        await this.queue.requeue({ ...task, priority: task.priority - 1 }, retryAt);
+
+        logger.warn(
+          `[ScanOrchestrator] Task failed at (${task.point.row},${task.point.col}), ` +
+          `attempt ${attempt}/${maxAttempts}, retrying after ${retryAt.toISOString()}: ${message}`,
+        );
+        return;
+      }
+
       // Count failed points as completed for progress tracking
-      await this.prisma.scan.update({
+      const progress = await this.prisma.scan.update({
         where: { id: task.scanId },
         data: { pointsCompleted: { increment: 1 } },
+        select: { pointsCompleted: true, pointsTotal: true },
       });
 
+      this.publishPointCompleted(task, 'failed', [], progress);
+
       logger.error(
-        `[ScanOrchestrator] Task failed at (${task.point.row},${task.point.col}): ${toErrorMessage(error)}`,
+        `[ScanOrchestrator] Task failed at (${task.point.row},${task.point.col}) after ${attempt} attempts: ${message}`,
       );
     }
   }
 
+  private publishPointCompleted(
+    task: ScanTask,
+    status: ScanPointStatus,
+    rankings: PointCompletedEvent['rankings'],
+    progress: { pointsCompleted: number; pointsTotal: number },
+  ): void {
+    this.events.publish({
+      type: 'point-completed',
+      data: {
+        scanId: task.scanId,
+        scanPointId: task.scanPointId,
+        engineId: task.engineId,
+        row: task.point.row,
+        col: task.point.col,
+        lat: task.point.lat,
+        lng: task.point.lng,
+        status,
+        rankings,
+        ...progress,
+      },
+    });
+  }
+
   private async processBusinessResult(
     task: ScanTask,
     parsed: ParsedBusiness,
     categoryId?: string | null,
-  ): Promise<void> {
+  ): Promise<string> {
     const match = await this.matcher.findOrCreate(parsed, task.engineId, categoryId ?? undefined);
 
     // Create ranking record
@@ -606,5 +1450,77 @@ export class ScanOrchestrator {
         },
       });
     }
+
+    return match.businessId;
   }
 }
+
+function percent(completed: number, total: number): number {
+  return total > 0 ? Math.round((completed / total) * 100) : 0;
+}
+
+function toCombo(request: CreateScanRequest, requests: number): Omit<ScanPreviewCombo, 'reason'> {
+  return {
+    serviceAreaId: request.serviceAreaId,
+    categoryId: request.categoryId,
+    keyword: request.keyword,
+    engineId: request.searchEngine,
+    requests,
+  };
+}
+
+function toScanBudget(plan: ScanPlan, budget: DailyBudget | undefined): ScanBudget {
+  if (!budget) throw new Error(`No throttle config for engine ${plan.request.searchEngine}`);
+  return {
+    engineId: plan.request.searchEngine,
+    requestCost: plan.points.length,
+    dailyCap: budget.dailyCap,
+    remainingToday: budget.remainingToday,
+  };
+}
+
+/**
+ * Whether a scan costs more than its engine allows — single scans must fit
+ * what's left today; full-scan batches may span days, but no one scan may
+ * outgrow a day.
+ */
+function isOverBudget(budget: ScanBudget, limit: 'remainingToday' | 'dailyCap'): boolean {
+  return budget.requestCost > budget[limit];
+}
+
+/**
+ * Hold a batch's scans to their budget together: each engine's running
+ * total against its limit, and the Google engines' combined total against
+ * GOOGLE_COMBINED_DAILY_LIMIT. The returned check counts a scan that fits
+ * and returns why one doesn't, or null.
+ */
+function trackBatchBudget(limit: 'remainingToday' | 'dailyCap'): (budget: ScanBudget) => string | null {
+  const engineTotals = new Map<string, number>();
+  let googleTotal = 0;
+  const per = limit === 'dailyCap' ? ' per day' : ' more today';
+
+  return (budget) => {
+    const engineTotal = (engineTotals.get(budget.engineId) ?? 0) + budget.requestCost;
+    if (engineTotal > budget[limit]) {
+      return `Needs ${budget.requestCost} requests` +
+        (engineTotal > budget.requestCost ? ` (${engineTotal} with the batch's other ${budget.engineId} scans)` : '') +
+        `; ${budget.engineId} allows ${budget[limit]}${per}`;
+    }
+
+    const isGoogle = GOOGLE_ENGINE_IDS.has(budget.engineId);
+    // remainingToday already nets out the Google group's other engines
+    if (isGoogle && limit === 'dailyCap' && googleTotal + budget.requestCost > GOOGLE_COMBINED_DAILY_LIMIT) {
+      return `Needs ${budget.requestCost} requests (${googleTotal + budget.requestCost} across the batch's Google scans); ` +
+        `Google engines share ${GOOGLE_COMBINED_DAILY_LIMIT}${per}`;
+    }
+
+    engineTotals.set(budget.engineId, engineTotal);
+    if (isGoogle) googleTotal += budget.requestCost;
+    return null;
+  };
+}
+
+/** Days between two times, to one decimal place */
+function daysFrom(from: number, to: Date): number {
+  return Math.round(((to.getTime() - from) / DAY_MS) * 10) / 10;
+}
@@ -1,49 +1,179 @@
+import { hostname } from 'node:os';
+import { randomUUID } from 'node:crypto';
+import type { PrismaClient } from '../../generated/prisma/client/index.js';
 import { GOOGLE_COMBINED_DAILY_LIMIT } from '../../config/engines.js';
 import type { ScanTask } from '../../types/scan.types.js';
 import type { BaseEngine } from '../engines/BaseEngine.js';
+import type { ScanEventBus } from './ScanEventBus.js';
 import { logger } from '../../config/logger.js';
+import { toErrorMessage } from '../../utils/errors.js';
 
 /** How long to wait before retrying a throttled/blocked engine (ms) */
 const RETRY_THROTTLED_MS = 60_000;
 
+/** A leased job not renewed within this window is handed to another worker */
+const LEASE_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** How often a running job's lease is extended (ms) */
+const LEASE_RENEW_MS = 60_000;
+
+/** A job whose lease expires this many times (worker crashed mid-task) is given up on */
+const MAX_ATTEMPTS = 3;
+
+/** Idle check for jobs enqueued by other instances or whose lease expired (ms) */
+const IDLE_POLL_MS = 30_000;
+
 const GOOGLE_ENGINE_IDS = new Set(['google_search', 'google_maps', 'google_local']);
 
+interface ClaimedJob {
+  id: string;
+  scanId: string;
+  scanPointId: string;
+  engineId: string;
+  query: string;
+  gridRow: number;
+  gridCol: number;
+  lat: number;
+  lng: number;
+  city: string | null;
+  state: string | null;
+  priority: number;
+  attempts: number;
+}
+
 /**
- * Event-driven priority queue with per-engine processing.
- * Each engine processes its own queue independently — enqueueing
- * tasks automatically starts processing for the relevant engines.
+ * Durable priority queue backed by the ScanJob table, processed per engine.
+ *
+ * Workers claim the highest-priority available job with a lease
+ * (SELECT … FOR UPDATE SKIP LOCKED), so several backend instances can
+ * share one queue without running a task twice. A job is deleted once
+ * its handler returns; if the worker dies mid-task, the lease expires
+ * and another worker picks the job up, up to MAX_ATTEMPTS times.
+ * Jobs of a paused scan are parked (status 'paused') until it resumes.
  */
 export class ScanQueue {
-  private readonly queues = new Map<string, ScanTask[]>();
+  private readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
   private readonly engines = new Map<string, BaseEngine>();
   private readonly processingEngines = new Set<string>();
   private readonly retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private idlePollTimer: ReturnType<typeof setInterval> | null = null;
   private stopped = false;
   private onTaskComplete?: (task: ScanTask) => Promise<void>;
   private googleLimitChecker?: () => number;
 
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly events?: ScanEventBus,
+  ) {}
+
   registerEngine(engine: BaseEngine): void {
     this.engines.set(engine.engineId, engine);
-    this.queues.set(engine.engineId, []);
   }
 
-  enqueue(task: ScanTask): void {
-    const queue = this.queues.get(task.engineId);
-    if (!queue) {
+  /**
+   * Persist tasks as jobs and start processing.
+   * Points that already have a live job are skipped, so re-enqueueing is
+   * safe; a dead-lettered (failed) job is replaced.
+   */
+  async enqueueBatch(tasks: ScanTask[]): Promise<void> {
+    const known = tasks.filter((task) => {
+      if (this.engines.has(task.engineId)) return true;
       logger.warn(`[ScanQueue] No queue for engine ${task.engineId}`);
-      return;
+      return false;
+    });
+
+    if (known.length > 0) {
+      // A dead-lettered job would otherwise block its point from ever being queued again
+      await this.prisma.scanJob.deleteMany({
+        where: { scanPointId: { in: known.map((task) => task.scanPointId) }, status: 'failed' },
+      });
+      await this.prisma.scanJob.createMany({
+        data: known.map((task) => ({
+          scanId: task.scanId,
+          scanPointId: task.scanPointId,
+          engineId: task.engineId,
+          query: task.query,
+          gridRow: task.point.row,
+          gridCol: task.point.col,
+          lat: task.point.lat,
+          lng: task.point.lng,
+          city: task.city ?? null,
+          state: task.state ?? null,
+          priority: task.priority,
+        })),
+        skipDuplicates: true,
+      });
     }
-    queue.push(task);
-    queue.sort((a, b) => b.priority - a.priority);
-  }
 
-  enqueueBatch(tasks: ScanTask[]): void {
-    for (const task of tasks) {
-      this.enqueue(task);
-    }
     this.ensureProcessing();
   }
 
+  /**
+   * Put a task's leased job back in the queue for another attempt,
+   * available no earlier than availableAt. The job is kept (not deleted)
+   * when the handler returns.
+   */
+  async requeue(task: ScanTask, availableAt: Date): Promise<void> {
+    await this.prisma.scanJob.updateMany({
+      where: { scanPointId: task.scanPointId },
+      data: {
+        status: 'queued',
+        priority: task.priority,
+        availableAt,
+        attempts: 0,
+        leasedBy: null,
+        leaseExpiresAt: null,
+      },
+    });
+  }
+
+  /**
+   * Park a single task's leased job — used when its scan was paused
+   * after the job was claimed. The job is kept when the handler returns.
+   */
+  async park(task: ScanTask): Promise<void> {
+    await this.prisma.scanJob.updateMany({
+      where: { scanPointId: task.scanPointId },
+      data: { status: 'paused', attempts: 0, leasedBy: null, leaseExpiresAt: null },
+    });
+  }
+
+  /**
+   * Park a scan's queued jobs so no worker claims them.
+   * Jobs already leased finish normally. Returns the number parked.
+   */
+  async parkScan(scanId: string): Promise<number> {
+    const { count } = await this.prisma.scanJob.updateMany({
+      where: { scanId, status: 'queued' },
+      data: { status: 'paused' },
+    });
+    return count;
+  }
+
+  /**
+   * Put a scan's parked jobs back in the queue and start processing.
+   * Returns the number restored.
+   */
+  async restoreScan(scanId: string): Promise<number> {
+    const { count } = await this.prisma.scanJob.updateMany({
+      where: { scanId, status: 'paused' },
+      data: { status: 'queued', availableAt: new Date() },
+    });
+    if (count > 0) this.ensureProcessing();
+    return count;
+  }
+
+  /**
+   * Delete a scan's jobs that haven't started. A job in flight finishes,
+   * but its handler skips work for a cancelled scan. Returns the number purged.
+   */
+  async purgeScan(scanId: string): Promise<number> {
+    const { count } = await this.prisma.scanJob.deleteMany({
+      where: { scanId, status: { not: 'leased' } },
+    });
+    return count;
+  }
+
   setTaskHandler(handler: (task: ScanTask) => Promise<void>): void {
     this.onTaskComplete = handler;
   }
@@ -56,45 +186,66 @@ export class ScanQueue {
     this.googleLimitChecker = checker;
   }
 
-  getQueueDepth(engineId: string): number {
-    return this.queues.get(engineId)?.length ?? 0;
+  /**
+   * Jobs waiting or in flight for an engine (across all instances).
+   */
+  async getQueueDepth(engineId: string): Promise<number> {
+    return this.prisma.scanJob.count({
+      where: { engineId, status: { in: ['queued', 'leased'] } },
+    });
+  }
+
+  async getTotalDepth(): Promise<number> {
+    return this.prisma.scanJob.count({
+      where: { status: { in: ['queued', 'leased'] } },
+    });
   }
 
-  getTotalDepth(): number {
-    let total = 0;
-    for (const queue of this.queues.values()) {
-      total += queue.length;
-    }
-    return total;
+  /**
+   * Jobs still waiting or in flight per scan. Scans with none are absent.
+   */
+  async getPendingCounts(scanIds: string[]): Promise<Map<string, number>> {
+    const groups = await this.prisma.scanJob.groupBy({
+      by: ['scanId'],
+      where: { scanId: { in: scanIds }, status: { in: ['queued', 'leased'] } },
+      _count: { _all: true },
+    });
+    return new Map(groups.map((g) => [g.scanId, g._count._all]));
   }
 
   /**
-   * Ensure all engines with queued tasks are processing.
+   * When a scan's last deferred job (a retry waiting out a block) becomes
+   * available, or null if none is deferred past now.
+   */
+  async getLatestRetryAt(scanId: string): Promise<Date | null> {
+    const job = await this.prisma.scanJob.findFirst({
+      where: { scanId, status: 'queued', availableAt: { gt: new Date() } },
+      orderBy: { availableAt: 'desc' },
+      select: { availableAt: true },
+    });
+    return job?.availableAt ?? null;
+  }
+
+  /**
+   * Ensure all engines are checking for work.
    * Idempotent — safe to call multiple times. Only starts engines
    * that aren't already running.
    */
   ensureProcessing(): void {
     this.stopped = false;
-    for (const [engineId, queue] of this.queues.entries()) {
-      if (queue.length > 0 && !this.processingEngines.has(engineId)) {
-        this.processingEngines.add(engineId);
-        this.processEngine(engineId).catch((error: unknown) => {
-          logger.error(
-            `[ScanQueue] Engine ${engineId} processing error: ${error instanceof Error ? error.message : String(error)}`,
-          );
-          this.processingEngines.delete(engineId);
-        });
-      }
-    }
+    this.startIdlePoll();
+    this.startEngines(false);
   }
 
+  /**
+   * Stop claiming new jobs. Queued jobs stay in the table for the next start.
+   */
   stop(): void {
     this.stopped = true;
-    for (const [engineId, queue] of this.queues.entries()) {
-      logger.info(`[ScanQueue] Clearing ${queue.length} tasks for ${engineId}`);
-      queue.length = 0;
+    if (this.idlePollTimer) {
+      clearInterval(this.idlePollTimer);
+      this.idlePollTimer = null;
     }
-    this.processingEngines.clear();
     for (const timer of this.retryTimers.values()) {
       clearTimeout(timer);
     }
@@ -125,56 +276,217 @@ export class ScanQueue {
     return this.googleLimitChecker() >= GOOGLE_COMBINED_DAILY_LIMIT;
   }
 
+  private startIdlePoll(): void {
+    if (this.idlePollTimer) return;
+    // Paused engines are left to their retry timer
+    this.idlePollTimer = setInterval(() => this.startEngines(true), IDLE_POLL_MS);
+    this.idlePollTimer.unref();
+  }
+
+  private startEngines(skipPaused: boolean): void {
+    for (const engineId of this.engines.keys()) {
+      if (this.processingEngines.has(engineId)) continue;
+      if (skipPaused && this.retryTimers.has(engineId)) continue;
+
+      this.processingEngines.add(engineId);
+      this.processEngine(engineId).catch((error: unknown) => {
+        logger.error(`[ScanQueue] Engine ${engineId} processing error: ${toErrorMessage(error)}`);
+        this.processingEngines.delete(engineId);
+      });
+    }
+  }
+
   private async processEngine(engineId: string): Promise<void> {
-    const queue = this.queues.get(engineId);
     const engine = this.engines.get(engineId);
-
-    if (!queue || !engine) {
+    if (!engine) {
       this.processingEngines.delete(engineId);
       return;
     }
 
-    logger.info(`[ScanQueue] Started processing engine ${engineId} (${queue.length} tasks)`);
-
     let pausedReason = '';
+    let processed = 0;
 
-    while (queue.length > 0 && !this.stopped) {
+    while (!this.stopped) {
+      // Check pause conditions before claiming so paused engines don't hold leases
       if (!engine.canMakeRequest()) {
         pausedReason = engine.getStatus();
-        logger.warn(`[ScanQueue] Engine ${engineId} is ${pausedReason}, pausing queue`);
-        break;
+      } else if (this.isGoogleEngine(engineId) && this.isGoogleLimitReached()) {
+        pausedReason = 'google_daily_limit';
       }
 
-      if (this.isGoogleEngine(engineId) && this.isGoogleLimitReached()) {
-        pausedReason = 'google_daily_limit';
-        logger.warn(
-          `[ScanQueue] Google combined daily limit (${GOOGLE_COMBINED_DAILY_LIMIT}) reached, pausing ${engineId}`,
-        );
+      if (pausedReason) {
+        if (await this.getQueueDepth(engineId) > 0) {
+          logger.warn(`[ScanQueue] Engine ${engineId} is ${pausedReason}, pausing queue`);
+        } else {
+          pausedReason = '';
+        }
         break;
       }
 
-      const task = queue.shift();
-      if (!task) break;
+      const job = await this.claimNext(engineId);
+      if (!job) break;
 
-      try {
-        if (this.onTaskComplete) {
-          await this.onTaskComplete(task);
-        }
-      } catch (error: unknown) {
-        logger.error(
-          `[ScanQueue] Task failed for ${engineId}: ${error instanceof Error ? error.message : String(error)}`,
-        );
+      if (processed === 0) {
+        logger.info(`[ScanQueue] Started processing engine ${engineId}`);
+        this.publishEngineStatus(engineId, null);
       }
+      processed++;
+
+      await this.runJob(job);
     }
 
     this.processingEngines.delete(engineId);
 
-    // If paused due to throttle/block and tasks remain, schedule retry
-    if (pausedReason && queue.length > 0 && !this.stopped) {
+    if (processed > 0 || pausedReason) {
+      this.publishEngineStatus(engineId, pausedReason || null);
+      logger.info(`[ScanQueue] Engine ${engineId} done (${processed} processed${pausedReason ? `, paused: ${pausedReason}` : ''})`);
+    }
+
+    // If paused due to throttle/block and jobs remain, schedule retry
+    if (pausedReason && !this.stopped) {
       this.scheduleRetry(engineId);
     }
+  }
 
-    logger.info(`[ScanQueue] Engine ${engineId} done (${queue.length} remaining${pausedReason ? `, paused: ${pausedReason}` : ''})`);
+  /**
+   * Atomically lease the highest-priority available job for an engine:
+   * a queued job, or a leased one whose worker stopped renewing it.
+   */
+  private async claimNext(engineId: string): Promise<ClaimedJob | null> {
+    await this.abandonExhausted(engineId);
+
+    const now = new Date();
+    const leaseExpiresAt = new Date(now.getTime() + LEASE_TIMEOUT_MS);
+    const rows = await this.prisma.$queryRaw<ClaimedJob[]>`
+      UPDATE "ScanJob"
+      SET "status" = 'leased',
+          "leasedBy" = ${this.workerId},
+          "leaseExpiresAt" = ${leaseExpiresAt},
+          "attempts" = "attempts" + 1,
+          "updatedAt" = ${now}
+      WHERE "id" = (
+        SELECT "id" FROM "ScanJob"
+        WHERE "engineId" = ${engineId}
+          AND (
+            ("status" = 'queued' AND "availableAt" <= ${now})
+            OR ("status" = 'leased' AND "leaseExpiresAt" < ${now})
+          )
+        ORDER BY "priority" DESC, "createdAt" ASC
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING "id", "scanId", "scanPointId", "engineId", "query", "gridRow", "gridCol",
+                "lat", "lng", "city", "state", "priority", "attempts"
+    `;
+
+    return rows[0] ?? null;
+  }
+
+  /**
+   * Dead-letter jobs whose lease expired MAX_ATTEMPTS times — the task
+   * keeps killing its worker, so stop handing it out.
+   */
+  private async abandonExhausted(engineId: string): Promise<void> {
+    const where = {
+      engineId,
+      status: 'leased',
+      leaseExpiresAt: { lt: new Date() },
+      attempts: { gte: MAX_ATTEMPTS },
+    };
+    const exhausted = await this.prisma.scanJob.findMany({ where, select: { id: true, scanId: true, scanPointId: true } });
+    if (exhausted.length === 0) return;
+
+    const reason = `Lease expired ${MAX_ATTEMPTS} times`;
+    await this.prisma.scanJob.updateMany({
+      where: { ...where, id: { in: exhausted.map((job) => job.id) } },
+      data: { status: 'failed', lastError: reason, leasedBy: null },
+    });
+    for (const job of exhausted) {
+      await this.failPoint(job.scanId, job.scanPointId, reason);
+    }
+
+    logger.warn(`[ScanQueue] Abandoned ${exhausted.length} ${engineId} jobs after ${MAX_ATTEMPTS} expired leases`);
+  }
+
+  /**
+   * Mark a dead-lettered job's point failed, counted as completed like any
+   * failed point, so its scan can still finish and retry-failed picks it up.
+   */
+  private async failPoint(scanId: string, scanPointId: string, reason: string): Promise<void> {
+    try {
+      const { count } = await this.prisma.scanPoint.updateMany({
+        where: { id: scanPointId, status: { notIn: ['completed', 'failed'] } },
+        data: { status: 'failed', lastError: reason },
+      });
+      if (count > 0) {
+        await this.prisma.scan.update({ where: { id: scanId }, data: { pointsCompleted: { increment: 1 } } });
+      }
+    } catch (error: unknown) {
+      // The point may have been deleted with its scan
+      logger.warn(`[ScanQueue] Failed to mark point ${scanPointId} failed: ${toErrorMessage(error)}`);
+    }
+  }
+
+  private async runJob(job: ClaimedJob): Promise<void> {
+    const task: ScanTask = {
+      scanId: job.scanId,
+      scanPointId: job.scanPointId,
+      engineId: job.engineId,
+      query: job.query,
+      point: { row: job.gridRow, col: job.gridCol, lat: job.lat, lng: job.lng },
+      priority: job.priority,
+      city: job.city ?? undefined,
+      state: job.state ?? undefined,
+    };
+
+    // Keep the lease alive while the task waits on throttles and the engine
+    const renewTimer = setInterval(() => {
+      this.prisma.scanJob.updateMany({
+        where: { id: job.id, leasedBy: this.workerId },
+        data: { leaseExpiresAt: new Date(Date.now() + LEASE_TIMEOUT_MS) },
+      }).catch((error: unknown) => {
+        logger.warn(`[ScanQueue] Failed to renew lease on job ${job.id}: ${toErrorMessage(error)}`);
+      });
+    }, LEASE_RENEW_MS);
+
+    try {
+      if (this.onTaskComplete) {
+        await this.onTaskComplete(task);
+      }
+      // A job the handler requeued or parked is no longer 'leased' and must survive
+      await this.prisma.scanJob.deleteMany({ where: { id: job.id, status: 'leased' } });
+    } catch (error: unknown) {
+      logger.error(`[ScanQueue] Task failed for ${job.engineId}: ${toErrorMessage(error)}`);
+      await this.prisma.scanJob.updateMany({
+        where: { id: job.id },
+        data: { status: 'failed', lastError: toErrorMessage(error), leasedBy: null },
+      }).catch(() => { /* job may have been deleted with its scan */ });
+      await this.failPoint(job.scanId, job.scanPointId, toErrorMessage(error));
+    } finally {
+      clearInterval(renewTimer);
+    }
+  }
+
+  private publishEngineStatus(engineId: string, pausedReason: string | null): void {
+    const engine = this.engines.get(engineId);
+    if (!this.events || !engine || this.events.getSubscriberCount() === 0) return;
+
+    this.getQueueDepth(engineId)
+      .then((queueDepth) => {
+        this.events?.publish({
+          type: 'engine-status',
+          data: {
+            engineId,
+            status: engine.getStatus(),
+            queueDepth,
+            isProcessing: this.processingEngines.has(engineId),
+            pausedReason,
+          },
+        });
+      })
+      .catch((error: unknown) => {
+        logger.warn(`[ScanQueue] Failed to publish ${engineId} status: ${toErrorMessage(error)}`);
+      });
   }
 
   /**
@@ -189,9 +501,8 @@ export class ScanQueue {
 
     const timer = setTimeout(() => {
       this.retryTimers.delete(engineId);
-      const queue = this.queues.get(engineId);
-      if (queue && queue.length > 0 && !this.stopped) {
-        logger.info(`[ScanQueue] Retrying engine ${engineId} (${queue.length} tasks queued)`);
+      if (!this.stopped) {
+        logger.info(`[ScanQueue] Retrying engine ${engineId}`);
         this.ensureProcessing();
       }
     }, RETRY_THROTTLED_MS);
@@ -12,6 +12,7 @@ interface ScheduledJob {
 /**
  * Reads active ScanSchedule records from the database and registers
  * node-cron jobs that call orchestrator.createFullScan() on each trigger.
+ * Each run is recorded as a ScanBatch linked to its schedule.
  */
 export class ScanScheduler {
   private readonly jobs = new Map<string, ScheduledJob>();
@@ -122,12 +123,14 @@ export class ScanScheduler {
     const startTime = Date.now();
 
     try {
-      const scanIds = await this.orchestrator.createFullScan({
+      const request = {
         serviceAreaIds: schedule.serviceAreaIds.length > 0 ? schedule.serviceAreaIds : undefined,
         categoryIds: schedule.categoryIds.length > 0 ? schedule.categoryIds : undefined,
         engineIds: schedule.engineIds.length > 0 ? schedule.engineIds : undefined,
         gridSize: schedule.gridSize,
-      });
+      };
+      const batchId = await this.orchestrator.createScanBatch(request, schedule.id);
+      const { scanIds } = await this.orchestrator.createFullScan(request, batchId);
 
       const elapsed = Math.round((Date.now() - startTime) / 1000);
 
@@ -141,7 +144,7 @@ export class ScanScheduler {
       });
 
       logger.info(
-        `[ScanScheduler] Schedule "${schedule.name}" created ${scanIds.length} scans in ${elapsed}s`,
+        `[ScanScheduler] Schedule "${schedule.name}" created batch ${batchId} with ${scanIds.length} scans in ${elapsed}s`,
       );
     } catch (error: unknown) {
       logger.error(`[ScanScheduler] Schedule "${schedule.name}" execution failed: ${toErrorMessage(error)}`);
@@ -0,0 +1,109 @@
+import type { PrismaClient } from '../../generated/prisma/client/index.js';
+import { createHmac, randomBytes, randomUUID } from 'node:crypto';
+import axios from 'axios';
+import type { WebhookEvent, WebhookPayload } from '../../types/webhook.types.js';
+import { logger } from '../../config/logger.js';
+import { toErrorMessage } from '../../utils/errors.js';
+import { withRetry } from '../../utils/retry.js';
+
+export const WEBHOOK_EVENTS = [
+  'scan.completed',
+  'fullscan.completed',
+  'engine.blocked',
+  'enrichment.finished',
+  'rank.changed',
+] as const satisfies readonly WebhookEvent[];
+
+/** Max time to wait for a receiver to respond */
+const DELIVERY_TIMEOUT_MS = 10000;
+
+/** Delivery attempts per webhook before giving up */
+const DELIVERY_ATTEMPTS = 3;
+
+/**
+ * Delivers lifecycle events to registered webhooks.
+ *
+ * Each delivery is a JSON POST signed with the webhook's secret:
+ *   X-Webhook-Signature: sha256=HMAC_SHA256(secret, `${timestamp}.${body}`)
+ * Receivers should recompute the signature and reject stale timestamps.
+ */
+export class WebhookDispatcher {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Fire an event to every active webhook subscribed to it.
+   * Fire-and-forget — never throws and never blocks the caller.
+   */
+  emit<T>(event: WebhookEvent, data: T): void {
+    this.deliverAll(event, data).catch((error: unknown) => {
+      logger.error(`[WebhookDispatcher] Failed to dispatch ${event}: ${toErrorMessage(error)}`);
+    });
+  }
+
+  private async deliverAll<T>(event: WebhookEvent, data: T): Promise<void> {
+    const webhooks = await this.prisma.webhook.findMany({
+      where: { isActive: true, events: { has: event } },
+    });
+    if (webhooks.length === 0) return;
+
+    const payload: WebhookPayload<T> = {
+      id: randomUUID(),
+      event,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+    const body = JSON.stringify(payload);
+
+    await Promise.all(webhooks.map((webhook) => this.deliver(webhook, payload, body)));
+  }
+
+  private async deliver(
+    webhook: { id: string; url: string; secret: string },
+    payload: WebhookPayload,
+    body: string,
+  ): Promise<void> {
+    try {
+      await withRetry(
+        () => {
+          // Sign per attempt so the timestamp reflects the actual send time
+          const timestamp = Math.floor(Date.now() / 1000).toString();
+          return axios.post(webhook.url, body, {
+            headers: {
+              'Content-Type': 'application/json',
+              'User-Agent': 'GeekRankRadar-Webhooks/1.0',
+              'X-Webhook-Event': payload.event,
+              'X-Webhook-Delivery': payload.id,
+              'X-Webhook-Timestamp': timestamp,
+              'X-Webhook-Signature': `sha256=${signPayload(webhook.secret, timestamp, body)}`,
+            },
+            timeout: DELIVERY_TIMEOUT_MS,
+            maxRedirects: 0,
+          });
+        },
+        `[WebhookDispatcher] ${payload.event} → ${webhook.url}`,
+        { maxAttempts: DELIVERY_ATTEMPTS, baseDelayMs: 2000, maxDelayMs: 15000 },
+      );
+
+      await this.prisma.webhook.update({
+        where: { id: webhook.id },
+        data: { lastDeliveryAt: new Date(), lastError: null, consecutiveFailures: 0 },
+      });
+    } catch (error: unknown) {
+      const message = toErrorMessage(error);
+      logger.warn(`[WebhookDispatcher] ${payload.event} delivery to ${webhook.url} failed: ${message}`);
+
+      await this.prisma.webhook.update({
+        where: { id: webhook.id },
+        data: { lastDeliveryAt: new Date(), lastError: message, consecutiveFailures: { increment: 1 } },
+      }).catch(() => { /* webhook may have been deleted mid-delivery */ });
+    }
+  }
+}
+
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function generateWebhookSecret(): string {
+  return randomBytes(24).toString('hex');
+}
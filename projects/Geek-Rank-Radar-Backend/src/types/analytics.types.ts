@@ -1,3 +1,5 @@
+import type { GridShape } from './scan.types.js';
+
 export interface RankTrendPoint {
   date: string;
   engineId: string;
@@ -17,20 +19,57 @@ export interface GeoHeatmapCell {
   businessName: string | null;
 }
 
+export interface GeoHeatmap {
+  scanId: string;
+  businessId: string;
+  keyword: string;
+  engineId: string;
+  gridSize: number;
+  gridRows: number;
+  gridCols: number;
+  gridShape: GridShape;
+  scannedAt: Date;
+  /** Row-major grid — cells[row][col], null where the grid shape has no point */
+  cells: Array<Array<GeoHeatmapCell | null>>;
+}
+
+export interface ScanBusinessMetrics {
+  businessId: string;
+  businessName: string;
+  isMine: boolean;
+  isCompetitor: boolean;
+  pointsTotal: number;
+  pointsFound: number;
+  pointsTop3: number;
+  /** Share of Local Voice — % of grid points ranked in the top 3 */
+  solv: number;
+  /** Average rank across all points, not-found points counted as NOT_FOUND_RANK */
+  atrp: number;
+  /** Average rank across points where the business was found */
+  arp: number;
+}
+
+export type GapType = 'geographic' | 'keyword' | 'cross_engine';
+export type OpportunityLevel = 'high' | 'medium' | 'low';
+
 export interface GapAnalysisResult {
-  type: 'geographic' | 'keyword' | 'cross_engine';
+  businessId: string;
+  businessName: string;
+  type: GapType;
   description: string;
   currentRank: number | null;
   competitorRank: number | null;
   serviceArea?: string;
   keyword?: string;
   engine?: string;
-  opportunity: 'high' | 'medium' | 'low';
+  opportunity: OpportunityLevel;
 }
 
 export interface CompetitorComparison {
   businessId: string;
   businessName: string;
+  isMine: boolean;
+  /** Average ATRP per engineId across the latest scans where the business ranked */
   avgRank: Record<string, number>;
   keywordsRanked: number;
   areasPresent: number;
@@ -40,12 +79,45 @@ export interface CompetitorComparison {
   rankingMomentum: string | null;
 }
 
+export interface CrossEngineRank {
+  engineId: string;
+  engineName: string;
+  /** Latest completed scan on this engine — null if never scanned */
+  scanId: string | null;
+  scannedAt: Date | null;
+  /** ATRP from the latest scan (NOT_FOUND_RANK when absent), null if never scanned */
+  avgPosition: number | null;
+  pointsFound: number;
+  pointsTotal: number;
+  /** Google baseline minus this engine's position — positive means ahead of Google */
+  deltaVsGoogle: number | null;
+  quickWin: boolean;
+}
+
+export interface CrossEngineComparison {
+  businessId: string;
+  businessName: string;
+  keyword: string;
+  serviceAreaId: string;
+  /** Best avgPosition across the Google engines */
+  googleBaseline: number | null;
+  /** True when any non-Google engine is flagged as a quick win */
+  quickWin: boolean;
+  engines: CrossEngineRank[];
+}
+
 export interface MarketOverview {
   categoryId: string;
   categoryName: string;
   serviceAreaId: string;
   serviceAreaName: string;
+  scansAnalyzed: number;
+  /** Ranked businesses counted in the stats — all but those located outside, unless includeOutside */
   totalBusinesses: number;
+  /** Ranked businesses located inside the service area (boundary, else radius) */
+  localBusinesses: number;
+  /** Ranked businesses with no coordinates — counted, since they can't be placed */
+  unlocatedBusinesses: number;
   avgRating: number | null;
   topBusinesses: Array<{
     id: string;
@@ -53,19 +125,58 @@ export interface MarketOverview {
     avgRank: number;
     rating: number | null;
     reviewCount: number;
+    /** False for businesses ranking here from outside the area, null when it has no coordinates */
+    inArea: boolean | null;
   }>;
 }
 
+export type RankChangeType = 'entered_top3' | 'left_top3' | 'improved' | 'dropped';
+
+export interface AlertFilters {
+  businessId?: string;
+  changeType?: RankChangeType;
+  acknowledged?: boolean;
+}
+
 export interface RankTrendFilters {
   businessId: string;
   keyword?: string;
   serviceAreaId?: string;
   engineId?: string;
   startDate?: string;
+  /** Inclusive — a date without a time includes that whole day */
   endDate?: string;
 }
 
+export interface GapAnalysisFilters {
+  businessId?: string;
+  categoryId?: string;
+  type?: GapType;
+  opportunity?: OpportunityLevel;
+}
+
+export interface CompetitorFilters {
+  categoryId?: string;
+  serviceAreaId?: string;
+}
+
+export interface MarketOverviewFilters {
+  categoryId?: string;
+  serviceAreaId?: string;
+  /** Number of top businesses per market (default 10) */
+  limit?: number;
+  /** Count businesses located outside the area in the stats and leaders (default false) */
+  includeOutside?: boolean;
+}
+
+export interface CrossEngineFilters {
+  businessId: string;
+  keyword: string;
+  serviceAreaId: string;
+}
+
 export interface GeoHeatmapFilters {
+  businessId: string;
   keyword: string;
   serviceAreaId: string;
   engineId: string;
@@ -26,6 +26,9 @@ export interface BusinessFilters {
   minRating?: number;
   hasPhone?: boolean;
   hasWebsite?: boolean;
+  reviewVelocity?: ReviewVelocity;
+  rankingMomentum?: RankingMomentum;
+  websiteQuality?: WebsiteQuality;
 }
 
 export interface EnrichmentPriority {
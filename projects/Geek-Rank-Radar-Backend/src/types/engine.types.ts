@@ -8,7 +8,7 @@ export interface GridPoint extends GeoPoint {
   col: number;
 }
 
-export type EngineStatus = 'healthy' | 'throttled' | 'blocked' | 'disabled';
+export type EngineStatus = 'healthy' | 'degraded' | 'throttled' | 'blocked' | 'disabled';
 
 export interface EngineState {
   engineId: string;
@@ -89,4 +89,6 @@ export interface SERPMetadata {
   relatedSearches?: string[];
   peopleAlsoAsk?: string[];
   parserVersion?: string;
+  /** Set when selectors found nothing and businesses came from the regex fallback */
+  regexFallback?: boolean;
 }
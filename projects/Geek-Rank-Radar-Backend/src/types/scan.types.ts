@@ -1,14 +1,29 @@
-import type { GridPoint } from './engine.types.js';
+import type { GridPoint, EngineStatus } from './engine.types.js';
+import type { AreaGeometry } from '../utils/geojson.js';
 
-export type ScanStatus = 'pending' | 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type ScanStatus = 'pending' | 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
 export type ScanPointStatus = 'pending' | 'completed' | 'failed';
 
+/** square — full NxN lattice; circle — clipped to radiusMiles; polygon — clipped to a GeoJSON area */
+export type GridShape = 'square' | 'circle' | 'polygon';
+
 export interface CreateScanRequest {
   serviceAreaId: string;
   categoryId: string;
   keyword: string;
   searchEngine: string;
+  /** Square grid shorthand — sets both gridRows and gridCols */
   gridSize?: number;
+  gridRows?: number;
+  gridCols?: number;
+  /** Fixed distance between neighbouring points, instead of spanning the area */
+  spacingMiles?: number;
+  /** Defaults to 'polygon' for service areas with a boundary, else 'square' */
+  gridShape?: GridShape;
+  /** Area to clip to — defaults to the service area's boundary */
+  polygon?: AreaGeometry;
+  /** Drop points inside active water exclusion zones */
+  excludeWater?: boolean;
 }
 
 export interface FullScanRequest {
@@ -16,6 +31,75 @@ export interface FullScanRequest {
   categoryIds?: string[];
   engineIds?: string[];
   gridSize?: number;
+  gridRows?: number;
+  gridCols?: number;
+  spacingMiles?: number;
+  /** 'polygon' clips each area to its boundary; areas without one are skipped */
+  gridShape?: GridShape;
+  excludeWater?: boolean;
+}
+
+/** What a scan costs against its engine's daily request budget */
+export interface ScanBudget {
+  engineId: string;
+  /** One request per grid point */
+  requestCost: number;
+  /** Most the engine may spend in a day, after its Google group limit */
+  dailyCap: number;
+  /** Left today after requests already made and queued jobs due today */
+  remainingToday: number;
+}
+
+export interface CreatedScan {
+  scanId: string;
+  budget: ScanBudget;
+}
+
+/** One (serviceArea x keyword x engine) combination that a preview or batch left out */
+export interface ScanPreviewCombo {
+  serviceAreaId: string;
+  categoryId: string;
+  keyword: string;
+  engineId: string;
+  requests: number;
+  /** Why the scan would not be created */
+  reason: string;
+}
+
+export interface ScanPreviewEngine {
+  engineId: string;
+  scans: number;
+  requests: number;
+  dailyCap: number;
+  remainingToday: number;
+  /** Jobs already queued on the engine, which run first */
+  queuedAhead: number;
+  estimatedCompletionAt: Date | null;
+  /** Days from now until the engine gets through its queue and these scans */
+  daysRequired: number;
+}
+
+/** What creating a scan (or full scan) would do, computed without writing anything */
+export interface ScanPreview {
+  scans: number;
+  totalRequests: number;
+  /** Engines run in parallel — the slowest engine's daysRequired */
+  daysRequired: number;
+  estimatedCompletionAt: Date | null;
+  engines: ScanPreviewEngine[];
+  /** Combos refused for costing more than their engine's daily cap (or, for single scans, what's left today) */
+  overCap: ScanPreviewCombo[];
+  /** Combos that could not be planned at all, e.g. a polygon grid for an area without a boundary */
+  skipped: ScanPreviewCombo[];
+}
+
+export type ScanBatchStatus = 'creating' | 'running' | 'completed' | 'failed';
+
+/** Scans created by one full-scan run (API request or schedule trigger) */
+export interface FullScanResult {
+  batchId: string;
+  scanIds: string[];
+  skipped: ScanPreviewCombo[];
 }
 
 export interface ScanTask {
@@ -31,6 +115,16 @@ export interface ScanTask {
   state?: string;
 }
 
+/** One try at a scan point, kept in ScanPoint.attemptHistory */
+export interface ScanPointAttempt {
+  attempt: number;
+  startedAt: string;
+  finishedAt: string;
+  /** 'retrying' — failed, but re-enqueued for another attempt */
+  status: 'completed' | 'failed' | 'retrying';
+  error?: string;
+}
+
 export interface ScanProgress {
   scanId: string;
   status: ScanStatus;
@@ -41,9 +135,79 @@ export interface ScanProgress {
   estimatedCompletionAt: Date | null;
 }
 
+export interface ScanBatchEngineProgress {
+  engineId: string;
+  scans: number;
+  scansByStatus: Record<string, number>;
+  pointsTotal: number;
+  pointsCompleted: number;
+  failedPoints: number;
+  percentComplete: number;
+}
+
+export interface ScanBatchProgress {
+  batchId: string;
+  status: ScanBatchStatus;
+  scansTotal: number;
+  scansByStatus: Record<string, number>;
+  pointsTotal: number;
+  pointsCompleted: number;
+  failedPoints: number;
+  percentComplete: number;
+  estimatedCompletionAt: Date | null;
+  engines: ScanBatchEngineProgress[];
+  failures: Array<{
+    scanId: string;
+    keyword: string;
+    searchEngine: string;
+    serviceArea: string;
+    errorMessage: string | null;
+  }>;
+  /** Combos that never became scans — over their engine's daily cap, or not plannable */
+  skipped: ScanPreviewCombo[];
+}
+
 export interface ScanFilters {
   status?: ScanStatus;
   searchEngine?: string;
   serviceAreaId?: string;
   categoryId?: string;
+  batchId?: string;
 }
+
+/** A grid point finished (successfully or not) — enough to drop a heatmap pin */
+export interface PointCompletedEvent {
+  scanId: string;
+  scanPointId: string;
+  engineId: string;
+  row: number;
+  col: number;
+  lat: number;
+  lng: number;
+  status: ScanPointStatus;
+  rankings: Array<{ businessId: string; businessName: string; rankPosition: number }>;
+  pointsCompleted: number;
+  pointsTotal: number;
+}
+
+export interface ScanStatusEvent {
+  scanId: string;
+  status: ScanStatus;
+  pointsCompleted: number;
+  pointsTotal: number;
+  errorMessage: string | null;
+}
+
+export interface EngineStatusEvent {
+  engineId: string;
+  status: EngineStatus;
+  queueDepth: number;
+  isProcessing: boolean;
+  /** Why the queue paused (throttled, blocked, google_daily_limit), null while running or idle */
+  pausedReason: string | null;
+}
+
+export type ScanEvent =
+  | { type: 'point-completed'; data: PointCompletedEvent }
+  | { type: 'scan-status'; data: ScanStatusEvent }
+  | { type: 'engine-status'; data: EngineStatusEvent };
@@ -0,0 +1,15 @@
+export type WebhookEvent =
+  | 'scan.completed'
+  | 'fullscan.completed'
+  | 'engine.blocked'
+  | 'enrichment.finished'
+  | 'rank.changed';
+
+/** JSON body POSTed to every subscribed webhook */
+export interface WebhookPayload<T = unknown> {
+  /** Delivery id — same across retries so receivers can dedupe */
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  data: T;
+}
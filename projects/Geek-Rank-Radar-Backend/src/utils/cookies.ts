@@ -3,7 +3,7 @@
  * Search engines set consent/tracking cookies — returning them looks more natural.
  */
 
-interface Cookie {
+export interface Cookie {
   name: string;
   value: string;
   domain: string;
@@ -45,6 +45,25 @@ export class CookieJar {
     return matching.length > 0 ? matching.join('; ') : undefined;
   }
 
+  /**
+   * Unexpired cookies, for persisting the session across restarts.
+   */
+  getAll(): Cookie[] {
+    this.pruneExpired();
+    return [...this.cookies.values()];
+  }
+
+  /**
+   * Replace the jar's contents with previously saved cookies.
+   */
+  restore(cookies: Cookie[]): void {
+    this.cookies.clear();
+    for (const cookie of cookies) {
+      this.cookies.set(`${cookie.domain}:${cookie.name}`, cookie);
+    }
+    this.pruneExpired();
+  }
+
   get size(): number {
     return this.cookies.size;
   }
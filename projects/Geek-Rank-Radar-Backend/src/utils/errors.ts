@@ -36,6 +36,13 @@ export class ThrottleError extends AppError {
   }
 }
 
+export class ScanBudgetError extends AppError {
+  constructor(message: string) {
+    super(message, 422, 'SCAN_OVER_BUDGET');
+    this.name = 'ScanBudgetError';
+  }
+}
+
 export class EngineBlockedError extends AppError {
   constructor(engineId: string, resumeAt: Date) {
     super(
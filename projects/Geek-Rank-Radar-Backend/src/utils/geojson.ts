@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { haversineDistance } from './geo.js';
+
+/** GeoJSON position — [longitude, latitude] */
+export type Position = [number, number];
+
+// Type aliases rather than interfaces so geometries can be stored in Prisma Json columns as-is
+export type GeoJsonPolygon = {
+  type: 'Polygon';
+  /** Outer ring first, then holes */
+  coordinates: Position[][];
+};
+
+export type GeoJsonMultiPolygon = {
+  type: 'MultiPolygon';
+  coordinates: Position[][][];
+};
+
+export type AreaGeometry = GeoJsonPolygon | GeoJsonMultiPolygon;
+
+/** The extent of a service area: its boundary when it has one, else the circle around its center */
+export interface AreaExtent {
+  centerLat: number;
+  centerLng: number;
+  radiusMiles: number;
+  boundary: AreaGeometry | null;
+}
+
+export interface GeoBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+const positionSchema = z.tuple([
+  z.number().min(-180).max(180),
+  z.number().min(-90).max(90),
+]).rest(z.number());
+
+const ringSchema = z.array(positionSchema)
+  .min(4, 'A linear ring needs at least 4 positions')
+  .refine(
+    (ring) => ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1],
+    'A linear ring must start and end at the same position',
+  );
+
+const polygonCoordinatesSchema = z.array(ringSchema).min(1, 'A polygon needs an outer ring');
+
+/** Validates a GeoJSON Polygon or MultiPolygon geometry (RFC 7946) */
+export const areaGeometrySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Polygon'), coordinates: polygonCoordinatesSchema }),
+  z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(polygonCoordinatesSchema).min(1) }),
+]).transform((geometry) => geometry as AreaGeometry);
+
+function polygonsOf(geometry: AreaGeometry): Position[][][] {
+  return geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+}
+
+/**
+ * Even-odd ray cast. Points exactly on an edge may fall either side.
+ */
+function ringContains(ring: Position[], lat: number, lng: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngI, latI] = ring[i];
+    const [lngJ, latJ] = ring[j];
+    if ((latI > lat) !== (latJ > lat) && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether a point lies inside the geometry (inside an outer ring and outside its holes).
+ */
+export function containsPoint(geometry: AreaGeometry, lat: number, lng: number): boolean {
+  return polygonsOf(geometry).some(([outer, ...holes]) =>
+    ringContains(outer, lat, lng) && !holes.some((hole) => ringContains(hole, lat, lng)),
+  );
+}
+
+export function geometryBounds(geometry: AreaGeometry): GeoBounds {
+  const bounds: GeoBounds = { minLat: 90, maxLat: -90, minLng: 180, maxLng: -180 };
+  for (const polygon of polygonsOf(geometry)) {
+    for (const [lng, lat] of polygon[0]) {
+      bounds.minLat = Math.min(bounds.minLat, lat);
+      bounds.maxLat = Math.max(bounds.maxLat, lat);
+      bounds.minLng = Math.min(bounds.minLng, lng);
+      bounds.maxLng = Math.max(bounds.maxLng, lng);
+    }
+  }
+  return bounds;
+}
+
+/**
+ * Convert a ServiceArea row (Decimal coordinates, Json boundary) to an AreaExtent.
+ */
+export function toAreaExtent(area: {
+  centerLat: unknown;
+  centerLng: unknown;
+  radiusMiles: unknown;
+  boundary: unknown;
+}): AreaExtent {
+  return {
+    centerLat: Number(area.centerLat),
+    centerLng: Number(area.centerLng),
+    radiusMiles: Number(area.radiusMiles),
+    boundary: (area.boundary as AreaGeometry | null) ?? null,
+  };
+}
+
+export function areaContainsPoint(area: AreaExtent, lat: number, lng: number): boolean {
+  if (area.boundary) return containsPoint(area.boundary, lat, lng);
+  return haversineDistance(area.centerLat, area.centerLng, lat, lng) <= area.radiusMiles;
+}
@@ -0,0 +1,50 @@
+import type { Response } from 'express';
+
+/** Comment line sent periodically so proxies don't close idle streams */
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+}
+
+/**
+ * Switch a response into a Server-Sent Events stream.
+ * onClose runs once, whether the client disconnects or the server closes.
+ */
+export function openEventStream(res: Response, onClose: () => void): EventStream {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    // Disable response buffering on nginx-style proxies
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  let closed = false;
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const cleanup = (): void => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    onClose();
+  };
+
+  // The response closes when the client disconnects — req 'close' fires as soon as the body is read
+  res.on('close', cleanup);
+
+  return {
+    send(event: string, data: unknown): void {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close(): void {
+      cleanup();
+      res.end();
+    },
+  };
+}